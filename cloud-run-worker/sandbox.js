@@ -0,0 +1,239 @@
+// sandbox.js
+// How solutions are built and run in the sandbox runner, and how a run is turned into a verdict.
+// Shared by this worker and the local execution backend in ../www, so both judge a run the same way.
+
+const fs = require("fs").promises;
+const path = require("path");
+
+const MAX_STDERR_LENGTH = 64 * 1024;
+// testlib exit codes of an interactor rejecting the solution: 1 - wrong answer, 2 - presentation error
+const REJECTED_EXIT_CODES = [1, 2];
+// A build used this recently may still be running (a full run can take minutes), so it is never evicted
+const BUILD_IN_USE_MS = 30 * 60 * 1000;
+
+/**
+ * @typedef {{ wall_time_ms: number, cpu_time_ms: number, peak_rss_kb: number, exit_code: number | null, signal: string | null }} ResourceUsage
+ * @typedef {ResourceUsage & { wall_timeout: boolean, memory_exceeded: boolean }} RunnerReport
+ * @typedef {{ time_limit_seconds: number, memory_limit_mb: number, output_limit_mb: number }} Limits
+ * @typedef {{ error?: string, verdict?: "TLE" | "OLE" | "MLE" | "RE", usage?: ResourceUsage, interactor_verdict?: { is_valid: boolean, message: string } }} RunResult
+ */
+
+// Toolchains per solution language.
+// Java limits its heap with -Xmx, the JVM reserves too much address space for RLIMIT_AS.
+// `debug` is the build used to diagnose runtime errors (debug_build: true), sanitizers need an unlimited address space too.
+// `ub_builds` are the compilers and flags compared by the undefined behavior check (ub_build: <name>).
+const TOOLCHAINS = {
+  cpp: {
+    source_file: "solution.cpp",
+    compile: (dir, flags, compiler = "g++") => [compiler, "-std=c++20", ...flags, `${dir}/solution.cpp`, "-o", `${dir}/solution`],
+    run: (dir) => [`${dir}/solution`],
+    limit_address_space: true,
+    debug: {
+      flags: ["-fsanitize=address,undefined", "-fno-omit-frame-pointer", "-g", "-D_GLIBCXX_DEBUG"],
+      // Leaks are not bugs for a solution, and UBSan should stop at the first error like ASan does
+      env: { ASAN_OPTIONS: "detect_leaks=0", UBSAN_OPTIONS: "print_stacktrace=1:halt_on_error=1" },
+    },
+    ub_builds: {
+      "g++ -O0": { compiler: "g++", flags: ["-O0"] },
+      "g++ -O2": { compiler: "g++", flags: ["-O2"] },
+      "clang++ -O2": { compiler: "clang++", flags: ["-O2"] },
+    },
+  },
+  python: {
+    source_file: "solution.py",
+    compile: (dir) => ["python3", "-m", "py_compile", `${dir}/solution.py`],
+    run: (dir) => ["python3", `${dir}/solution.py`],
+    limit_address_space: true,
+  },
+  java: {
+    source_file: "Main.java",
+    compile: (dir, flags) => ["javac", ...flags, "-d", dir, `${dir}/Main.java`],
+    run: (dir, memoryLimitMb) => ["java", `-Xmx${memoryLimitMb}m`, "-Xss512m", "-cp", dir, "Main"],
+    limit_address_space: false,
+  },
+  rust: {
+    source_file: "solution.rs",
+    compile: (dir, flags) => ["rustc", "-O", "--edition", "2021", ...flags, `${dir}/solution.rs`, "-o", `${dir}/solution`],
+    run: (dir) => [`${dir}/solution`],
+    limit_address_space: true,
+    debug: {
+      flags: ["-g", "-C", "debug-assertions=on", "-C", "overflow-checks=on"],
+      env: { RUST_BACKTRACE: "1" },
+    },
+  },
+};
+
+// Arguments of the sandbox runner up to the command.
+// The wall time limit leaves some slack over the CPU limit, e.g. for a process blocked on I/O.
+/**
+ * @param {boolean} limitAddressSpace
+ * @param {Limits} limits
+ * @param {string} reportPath
+ * @returns {string[]}
+ */
+function runnerArgs(limitAddressSpace, limits, reportPath) {
+  return [
+    String(limits.time_limit_seconds),
+    String(limitAddressSpace ? limits.memory_limit_mb : 0),
+    String(limits.memory_limit_mb),
+    String(limits.output_limit_mb),
+    String((limits.time_limit_seconds * 2 + 1) * 1000),
+    reportPath,
+  ];
+}
+
+// Resolves with the child's stderr once it exits
+/**
+ * @param {import("child_process").ChildProcess} child
+ * @returns {Promise<string>}
+ */
+function collectStderr(child) {
+  return new Promise((resolve, reject) => {
+    let stderr = "";
+    child.stderr?.on("data", (chunk) => {
+      if (stderr.length < MAX_STDERR_LENGTH) {
+        stderr += chunk.toString();
+      }
+    });
+    child.on("error", reject);
+    child.on("close", () => resolve(stderr));
+  });
+}
+
+// Turns the measured usage into a verdict: exceeding the CPU limit is TLE, hitting the file size limit is OLE,
+// a crash the runner blames on a failed allocation or the exhausted address space is MLE, any other non-zero exit is RE.
+/**
+ * @param {RunnerReport} report
+ * @param {string} stderr
+ * @param {Limits} limits
+ * @returns {RunResult}
+ */
+function classifyRun(report, stderr, limits) {
+  const { wall_timeout, memory_exceeded, ...usage } = report;
+  if (wall_timeout || usage.signal === "SIGXCPU" || usage.cpu_time_ms > limits.time_limit_seconds * 1000) {
+    return { error: "Time limit exceeded", verdict: "TLE", usage };
+  }
+  if (usage.signal === "SIGXFSZ") {
+    return { error: "Output limit exceeded", verdict: "OLE", usage };
+  }
+  if (usage.exit_code === 0) {
+    return { usage };
+  }
+  if (memory_exceeded) {
+    return { error: "Memory limit exceeded", verdict: "MLE", usage };
+  }
+  const reason = usage.signal ? `Process terminated by signal ${usage.signal}` : `Process exited with code ${usage.exit_code}`;
+  return { error: stderr ? `${reason}\n${stderr}` : reason, verdict: "RE", usage };
+}
+
+// Decides an interactive run. Whoever stopped first is to blame: a solution cut off by a rejecting interactor
+// often crashes on the closed pipe, while an interactor left without answers by a crashed solution rejects it.
+// A run where the interactor itself fails gets no verdict, like a failed checker.
+/**
+ * @param {RunResult} result
+ * @param {RunnerReport} interactorReport
+ * @param {string} interactorStderr
+ * @param {boolean} interactorExitedFirst
+ * @param {number | undefined} queryLimit
+ * @returns {RunResult}
+ */
+function classifyInteraction(result, interactorReport, interactorStderr, interactorExitedFirst, queryLimit) {
+  if (queryLimit !== undefined) {
+    return { usage: result.usage, interactor_verdict: { is_valid: false, message: `Query limit exceeded: more than ${queryLimit} queries` } };
+  }
+  const exitCode = interactorReport.exit_code;
+  const rejected = exitCode !== null && REJECTED_EXIT_CODES.includes(exitCode);
+  if (result.error && !(rejected && interactorExitedFirst)) {
+    return result;
+  }
+  if (rejected) {
+    return {
+      usage: result.usage,
+      interactor_verdict: { is_valid: false, message: interactorStderr.trim() || `Interactor exited with code ${exitCode}` },
+    };
+  }
+  if (exitCode === 0) {
+    return { usage: result.usage, interactor_verdict: { is_valid: true, message: interactorStderr.trim() || "ok" } };
+  }
+  const reason = interactorReport.wall_timeout
+    ? "timed out"
+    : interactorReport.signal
+      ? `was terminated by signal ${interactorReport.signal}`
+      : `exited with code ${exitCode}`;
+  return { error: `Interactor ${reason}${interactorStderr ? `\n${interactorStderr}` : ""}`, usage: result.usage };
+}
+
+// Marks a cached build as just used, the least recently used ones are evicted first
+/**
+ * @param {string} buildDir
+ * @returns {Promise<void>}
+ */
+async function touchBuild(buildDir) {
+  const now = new Date();
+  await fs.utimes(buildDir, now, now).catch(() => {});
+}
+
+/**
+ * @param {string} dir
+ * @returns {Promise<number>}
+ */
+async function sizeOf(dir) {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const sizes = await Promise.all(
+    entries.map((entry) => {
+      const entryPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? sizeOf(entryPath) : fs.stat(entryPath).then((stat) => stat.size, () => 0);
+    })
+  );
+  return sizes.reduce((total, size) => total + size, 0);
+}
+
+/** @type {Promise<void> | null} */
+let pruning = null;
+
+// Removes the least recently used builds (see touchBuild) until the cache takes at most maxBytes.
+// Every new build adds a dir, so without this the cache grows with each recovery iteration and build variant.
+// Builds used in the last BUILD_IN_USE_MS are kept even over the limit. Calls during a pruning are skipped.
+/**
+ * @param {string} cacheDir
+ * @param {number} maxBytes
+ * @returns {Promise<void>}
+ */
+function pruneBuildCache(cacheDir, maxBytes) {
+  if (!pruning) {
+    pruning = (async () => {
+      const names = await fs.readdir(cacheDir).catch(() => []);
+      const builds = await Promise.all(
+        names.map(async (name) => {
+          const dir = path.join(cacheDir, name);
+          const stat = await fs.stat(dir).catch(() => null);
+          return stat ? { dir, used: stat.mtimeMs, bytes: await sizeOf(dir) } : null;
+        })
+      );
+      const cached = builds.filter((build) => build !== null).sort((a, b) => a.used - b.used);
+      let total = cached.reduce((sum, build) => sum + build.bytes, 0);
+      for (const build of cached) {
+        if (total <= maxBytes || Date.now() - build.used < BUILD_IN_USE_MS) {
+          break;
+        }
+        await fs.rm(build.dir, { recursive: true, force: true });
+        total -= build.bytes;
+      }
+    })()
+      .catch((error) => console.error("Failed to prune the build cache:", error))
+      .finally(() => {
+        pruning = null;
+      });
+  }
+  return pruning;
+}
+
+module.exports = {
+  TOOLCHAINS,
+  runnerArgs,
+  collectStderr,
+  classifyRun,
+  classifyInteraction,
+  touchBuild,
+  pruneBuildCache,
+};
@@ -0,0 +1,226 @@
+// Sandbox runner: executes a program under CPU time, memory, output size and wall time limits
+// and writes the measured resource usage as JSON to a report file.
+// Usage: sandbox_runner <time_limit_seconds> <memory_limit_mb> <stack_limit_mb> <output_limit_mb> <wall_limit_ms> <report_path> <program> [args...]
+// A zero limit is not enforced. The stack has its own limit, so it stays large when the address space is not limited
+// (the JVM and sanitizer builds reserve huge virtual memory upfront).
+// The program's stderr passes through the runner, which reports memory_exceeded when a crashed program failed to
+// allocate memory or ran out of address space.
+#include <cerrno>
+#include <csignal>
+#include <cstdio>
+#include <cstdlib>
+#include <cstring>
+#include <fcntl.h>
+#include <poll.h>
+#include <string>
+#include <sys/resource.h>
+#include <sys/time.h>
+#include <sys/wait.h>
+#include <unistd.h>
+
+// What the runtimes print when an allocation fails: C++, Python, Java, Rust and the sanitizer builds
+static const char* const ALLOCATION_FAILURES[] = {
+  "std::bad_alloc",
+  "MemoryError",
+  "OutOfMemoryError",
+  "memory allocation of",
+  "AddressSanitizer: out of memory",
+};
+// How often the address space of the program is sampled while it runs
+static const int SAMPLE_INTERVAL_MS = 5;
+
+static pid_t child = -1;
+static volatile sig_atomic_t wall_timeout = 0;
+
+static void on_alarm(int) {
+  wall_timeout = 1;
+  if (child > 0) kill(child, SIGKILL);
+}
+
+static const char* signal_name(int sig) {
+  switch (sig) {
+    case SIGABRT: return "SIGABRT";
+    case SIGBUS: return "SIGBUS";
+    case SIGFPE: return "SIGFPE";
+    case SIGILL: return "SIGILL";
+    case SIGKILL: return "SIGKILL";
+    case SIGPIPE: return "SIGPIPE";
+    case SIGSEGV: return "SIGSEGV";
+    case SIGTERM: return "SIGTERM";
+    case SIGXCPU: return "SIGXCPU";
+    case SIGXFSZ: return "SIGXFSZ";
+    default: return "UNKNOWN";
+  }
+}
+
+// Stopping the runner stops the program, e.g. when an interactive run goes over its query limit
+static void on_term(int) {
+  if (child > 0) kill(child, SIGKILL);
+}
+
+static long long ms(const timeval& tv) { return tv.tv_sec * 1000LL + tv.tv_usec / 1000; }
+
+// The largest address space the process has had (VmPeak), 0 once it is gone
+static long peak_address_space_kb(pid_t pid) {
+  char path[64];
+  snprintf(path, sizeof(path), "/proc/%d/status", (int)pid);
+  FILE* status = fopen(path, "r");
+  if (!status) return 0;
+  char line[256];
+  long kb = 0;
+  while (fgets(line, sizeof(line), status)) {
+    if (sscanf(line, "VmPeak: %ld kB", &kb) == 1) break;
+  }
+  fclose(status);
+  return kb;
+}
+
+// Copies what the program wrote to stderr to the runner's stderr, looking for allocation failures on the way.
+// `tail` keeps the end of the previous chunk, so a message split between two reads is still found.
+// Returns false once the pipe is closed or has nothing more to read.
+static bool forward_stderr(int fd, std::string& tail, bool& allocation_failed) {
+  char buffer[4096];
+  ssize_t n = read(fd, buffer, sizeof(buffer));
+  if (n <= 0) return n < 0 && errno == EINTR;
+  for (ssize_t written = 0; written < n;) {
+    ssize_t w = write(STDERR_FILENO, buffer + written, n - written);
+    if (w <= 0) break;
+    written += w;
+  }
+  tail.append(buffer, n);
+  for (const char* marker : ALLOCATION_FAILURES) {
+    if (tail.find(marker) != std::string::npos) allocation_failed = true;
+  }
+  if (tail.size() > 64) tail.erase(0, tail.size() - 64);
+  return true;
+}
+
+int main(int argc, char** argv) {
+  if (argc < 8) {
+    fprintf(stderr, "usage: %s <time_limit_seconds> <memory_limit_mb> <stack_limit_mb> <output_limit_mb> <wall_limit_ms> <report_path> <program> [args...]\n", argv[0]);
+    return 2;
+  }
+  const long time_limit = atol(argv[1]);
+  const long memory_limit_mb = atol(argv[2]);
+  const long stack_limit_mb = atol(argv[3]);
+  const long output_limit_mb = atol(argv[4]);
+  const long wall_limit_ms = atol(argv[5]);
+  const char* report_path = argv[6];
+
+  struct sigaction term = {};
+  term.sa_handler = on_term;
+  sigaction(SIGTERM, &term, nullptr);
+
+  int stderr_pipe[2];
+  if (pipe(stderr_pipe) < 0) {
+    perror("pipe");
+    return 2;
+  }
+
+  timeval start, end;
+  gettimeofday(&start, nullptr);
+
+  child = fork();
+  if (child < 0) {
+    perror("fork");
+    return 2;
+  }
+  if (child == 0) {
+    signal(SIGTERM, SIG_DFL);
+    dup2(stderr_pipe[1], STDERR_FILENO);
+    close(stderr_pipe[0]);
+    close(stderr_pipe[1]);
+    if (time_limit > 0) {
+      rlimit cpu = {(rlim_t)time_limit, (rlim_t)time_limit + 1};
+      setrlimit(RLIMIT_CPU, &cpu);
+    }
+    if (memory_limit_mb > 0) {
+      rlim_t bytes = (rlim_t)memory_limit_mb * 1024 * 1024;
+      rlimit mem = {bytes, bytes};
+      setrlimit(RLIMIT_AS, &mem);
+    }
+    if (stack_limit_mb > 0) {
+      // Deep recursion is common in competitive programming, callers let the stack use the whole memory limit
+      rlim_t bytes = (rlim_t)stack_limit_mb * 1024 * 1024;
+      rlimit stack = {bytes, bytes};
+      setrlimit(RLIMIT_STACK, &stack);
+    }
+    if (output_limit_mb > 0) {
+      // Writing past the limit raises SIGXFSZ, reported as output limit exceeded
+      rlim_t bytes = (rlim_t)output_limit_mb * 1024 * 1024;
+      rlimit out = {bytes, bytes};
+      setrlimit(RLIMIT_FSIZE, &out);
+    }
+    execvp(argv[7], argv + 7);
+    perror("execvp");
+    _exit(127);
+  }
+
+  // Only the program keeps its stdin and stdout, so a pipe to it closes as soon as the program exits
+  close(STDIN_FILENO);
+  close(STDOUT_FILENO);
+  close(stderr_pipe[1]);
+  // Whoever reads the runner's stderr may stop before the program does, the report is still written
+  signal(SIGPIPE, SIG_IGN);
+
+  struct sigaction sa = {};
+  sa.sa_handler = on_alarm;
+  sigaction(SIGALRM, &sa, nullptr);
+  if (wall_limit_ms > 0) {
+    itimerval timer = {};
+    timer.it_value.tv_sec = wall_limit_ms / 1000;
+    timer.it_value.tv_usec = (wall_limit_ms % 1000) * 1000;
+    setitimer(ITIMER_REAL, &timer, nullptr);
+  }
+
+  int status = 0;
+  rusage usage = {};
+  pollfd err = {stderr_pipe[0], POLLIN, 0};
+  std::string tail;
+  bool allocation_failed = false;
+  long peak_kb = 0;
+  while (true) {
+    long kb = peak_address_space_kb(child);
+    if (kb > peak_kb) peak_kb = kb;
+    // A negative fd is skipped, then poll only waits for the next sample
+    if (poll(&err, 1, SAMPLE_INTERVAL_MS) > 0 && !forward_stderr(err.fd, tail, allocation_failed)) {
+      err.fd = -1;
+    }
+    pid_t done = wait4(child, &status, WNOHANG, &usage);
+    if (done == child) break;
+    if (done < 0 && errno != EINTR) {
+      perror("wait4");
+      return 2;
+    }
+  }
+  gettimeofday(&end, nullptr);
+  // A process started by the program may still hold the pipe open, so only what is already there is read
+  if (err.fd >= 0) {
+    fcntl(err.fd, F_SETFL, O_NONBLOCK);
+    while (forward_stderr(err.fd, tail, allocation_failed)) {
+    }
+  }
+
+  // The address space is sampled, so the last growth before the crash may be missed: the resident memory, which
+  // never exceeds it, is measured exactly, and coming within 1/64 of the limit counts as running out of it
+  if (usage.ru_maxrss > peak_kb) peak_kb = usage.ru_maxrss;
+  const long limit_kb = memory_limit_mb * 1024;
+  const bool crashed = WIFSIGNALED(status) || WEXITSTATUS(status) != 0;
+  const bool memory_exceeded = crashed && (allocation_failed || (limit_kb > 0 && peak_kb >= limit_kb - limit_kb / 64));
+
+  FILE* report = fopen(report_path, "w");
+  if (!report) {
+    perror("fopen");
+    return 2;
+  }
+  fprintf(report, "{\"wall_time_ms\":%lld,\"cpu_time_ms\":%lld,\"peak_rss_kb\":%ld,",
+          ms(end) - ms(start), ms(usage.ru_utime) + ms(usage.ru_stime), usage.ru_maxrss);
+  if (WIFSIGNALED(status)) {
+    fprintf(report, "\"exit_code\":null,\"signal\":\"%s\",", signal_name(WTERMSIG(status)));
+  } else {
+    fprintf(report, "\"exit_code\":%d,\"signal\":null,", WEXITSTATUS(status));
+  }
+  fprintf(report, "\"wall_timeout\":%s,\"memory_exceeded\":%s}\n", wall_timeout ? "true" : "false", memory_exceeded ? "true" : "false");
+  fclose(report);
+  return 0;
+}
@@ -1,96 +1,338 @@
 // server.js
 
 const express = require("express");
-const { exec } = require("child_process");
+const { execFile, spawn } = require("child_process");
 const fs = require("fs").promises;
+const { openSync, closeSync, existsSync } = require("fs");
+const os = require("os");
 const path = require("path");
+const crypto = require("crypto");
+const { downloadBlob, uploadContentAddressed } = require("./storage");
+const {
+  TOOLCHAINS,
+  runnerArgs,
+  collectStderr,
+  classifyRun,
+  classifyInteraction,
+  touchBuild,
+  pruneBuildCache,
+} = require("./sandbox");
 const app = express();
 
+// Compiled from sandbox_runner.cpp in the Dockerfile
+const SANDBOX_RUNNER = process.env.SANDBOX_RUNNER || "/usr/local/bin/sandbox-runner";
+const DEFAULT_TIME_LIMIT_SECONDS = 10;
+const DEFAULT_MEMORY_LIMIT_MB = 8000;
+const DEFAULT_OUTPUT_LIMIT_MB = 256;
+const BUILD_CACHE_DIR = "/tmp/builds";
+// /tmp is in memory on Cloud Run, so the build cache counts against the instance's memory
+const BUILD_CACHE_MAX_MB = Number(process.env.BUILD_CACHE_MAX_MB) || 1024;
+// How many jobs this worker runs well at once, reported by /health for load balancing
+const CAPACITY = Number(process.env.CAPACITY) || os.cpus().length;
+
+// Builds in progress, keyed by the hash of the language and source
+const compilations = new Map();
+
+let activeJobs = 0;
+
+// Counts a compute request as active until its response is sent or the client goes away
+function trackJob(req, res, next) {
+  activeJobs++;
+  res.on("close", () => activeJobs--);
+  next();
+}
+
 app.use(express.json());
 
-// Initialize Google Cloud Storage with error handling
-const { Storage } = require("@google-cloud/storage");
-let storage = new Storage();
+// Polled by the www executor to skip dead workers and route to the least loaded one
+app.get("/health", (req, res) => {
+  res.json({
+    status: "ok",
+    active_jobs: activeJobs,
+    capacity: CAPACITY,
+    languages: Object.keys(TOOLCHAINS),
+  });
+});
 
-app.post("/compute", async (req, res) => {
+app.post("/compute", trackJob, async (req, res) => {
   console.log("Received computation request");
 
-  const { sourceCode, input, inputUrl } = req.body;
+  const {
+    sourceCode,
+    language = "cpp",
+    input,
+    inputUrl,
+    time_limit_seconds = DEFAULT_TIME_LIMIT_SECONDS,
+    memory_limit_mb = DEFAULT_MEMORY_LIMIT_MB,
+    output_limit_mb = DEFAULT_OUTPUT_LIMIT_MB,
+    debug_build = false,
+    ub_build,
+    interactor,
+  } = req.body;
   if (!sourceCode || (!input && !inputUrl)) {
     return res
       .status(400)
       .json({ error: "Missing sourceCode and either input or inputUrl" });
   }
+  if (!TOOLCHAINS[language]) {
+    return res.status(400).json({ error: `Unsupported language: ${language}` });
+  }
 
   // Generate random IDs for temporary files
   const tmpDir = "/tmp";
   const randomId = Math.random().toString(36).substring(7);
-  const sourcePath = path.join(tmpDir, `solution_${randomId}.cpp`);
-  const binaryPath = path.join(tmpDir, `solution_${randomId}`);
   const inputPath = path.join(tmpDir, `input_${randomId}.txt`);
   const outputPath = path.join(tmpDir, `output_${randomId}.txt`);
+  const reportPath = path.join(tmpDir, `usage_${randomId}.json`);
 
   try {
-    // Save source code to file
-    await fs.writeFile(sourcePath, sourceCode, "utf8");
-
     // Handle input or inputUrl
     if (input) {
       await fs.writeFile(inputPath, input, "utf8");
     } else if (inputUrl) {
-      await downloadFromGCS(inputUrl, inputPath);
+      await downloadBlob(inputUrl, inputPath);
     }
 
-    // Compile and run the code
-    const compileAndRunCommand = `g++ -std=c++20 "${sourcePath}" -o "${binaryPath}" && "${binaryPath}" < "${inputPath}" > "${outputPath}"`;
-
-    await new Promise((resolve, reject) => {
-      exec(compileAndRunCommand, (error, stdout, stderr) => {
-        if (error) {
-          reject(stderr || error.message);
-        } else {
-          resolve();
-        }
-      });
-    });
+    // Compile (or reuse the cached build) and run the code
+    let buildDir;
+    try {
+      buildDir = await getBuild(sourceCode, language, debug_build, ub_build);
+    } catch (error) {
+      return res.json({ error: error.toString(), verdict: "CE" });
+    }
+    let interactorDir;
+    try {
+      interactorDir = interactor && (await getBuild(interactor.source, "cpp", false));
+    } catch (error) {
+      return res.json({ error: `Interactor does not compile: ${error}` });
+    }
+    const limits = { time_limit_seconds, memory_limit_mb, output_limit_mb };
+    const result = await runSolution(language, debug_build, buildDir, interactor, interactorDir, inputPath, outputPath, reportPath, limits);
+    if (result.error) {
+      return res.json(result);
+    }
 
-    // Upload output to GCS
-    const outputFilename = `output_${randomId}.txt`;
-    const outputUrl = await uploadToGCS(outputPath, outputFilename);
+    // Upload output to the blob storage
+    const outputUrl = await uploadContentAddressed(outputPath, "outputs");
 
-    res.json({ outputUrl });
+    res.json({ outputUrl, usage: result.usage, interactor_verdict: result.interactor_verdict });
   } catch (error) {
     console.error("Computation error:", error);
     res.json({ error: error.toString() });
   } finally {
     // Cleanup temporary files
     try {
-      await fs.unlink(sourcePath);
-      await fs.unlink(binaryPath);
       await fs.unlink(inputPath);
       await fs.unlink(outputPath);
+      await fs.unlink(reportPath);
+      await fs.unlink(`${reportPath}.interactor`);
     } catch (error) {}
   }
 });
 
-// Helper functions to interact with GCS
-async function downloadFromGCS(objectUrl, destPath) {
-  console.log(`Downloading from GCS: ${objectUrl} to ${destPath}`);
-  const [scheme, bucketWithPath] = objectUrl.split("://");
-  const [bucketName, ...filePathParts] = bucketWithPath.split("/");
-  const filePath = filePathParts.join("/");
+// Compiles one source and runs it on every input, inputs and outputs are passed inline.
+// Inputs run one by one, so the measured times are not skewed by each other.
+app.post("/compute_batch", trackJob, async (req, res) => {
+  const {
+    sourceCode,
+    language = "cpp",
+    inputs,
+    time_limit_seconds = DEFAULT_TIME_LIMIT_SECONDS,
+    memory_limit_mb = DEFAULT_MEMORY_LIMIT_MB,
+    output_limit_mb = DEFAULT_OUTPUT_LIMIT_MB,
+    debug_build = false,
+    ub_build,
+    interactor,
+  } = req.body;
+  if (!sourceCode || !Array.isArray(inputs)) {
+    return res.status(400).json({ error: "Missing sourceCode or inputs" });
+  }
+  if (!TOOLCHAINS[language]) {
+    return res.status(400).json({ error: `Unsupported language: ${language}` });
+  }
+  console.log(`Received batch computation request with ${inputs.length} inputs`);
+
+  let buildDir;
+  try {
+    buildDir = await getBuild(sourceCode, language, debug_build, ub_build);
+  } catch (error) {
+    return res.json({ error: error.toString(), verdict: "CE" });
+  }
+  let interactorDir;
+  try {
+    interactorDir = interactor && (await getBuild(interactor.source, "cpp", false));
+  } catch (error) {
+    return res.json({ error: `Interactor does not compile: ${error}` });
+  }
 
-  const options = { destination: destPath };
-  await storage.bucket(bucketName).file(filePath).download(options);
+  const limits = { time_limit_seconds, memory_limit_mb, output_limit_mb };
+  const results = [];
+  for (const input of inputs) {
+    const randomId = Math.random().toString(36).substring(7);
+    const inputPath = path.join("/tmp", `input_${randomId}.txt`);
+    const outputPath = path.join("/tmp", `output_${randomId}.txt`);
+    const reportPath = path.join("/tmp", `usage_${randomId}.json`);
+    try {
+      await fs.writeFile(inputPath, input, "utf8");
+      const result = await runSolution(language, debug_build, buildDir, interactor, interactorDir, inputPath, outputPath, reportPath, limits);
+      if (result.error) {
+        results.push(result);
+      } else {
+        results.push({
+          output: await fs.readFile(outputPath, "utf8"),
+          usage: result.usage,
+          interactor_verdict: result.interactor_verdict,
+        });
+      }
+    } catch (error) {
+      console.error("Computation error:", error);
+      results.push({ error: error.toString() });
+    } finally {
+      await Promise.all(
+        [inputPath, outputPath, reportPath, `${reportPath}.interactor`].map((file) => fs.unlink(file).catch(() => {}))
+      );
+    }
+  }
+
+  res.json({ results });
+});
+
+// Builds are cached by the hash of the language, flags, compiler and source, so recovery loops and full runs of
+// an already validated solution skip compilation. Compile errors are not cached; a compiler missing for one of
+// the ub_builds (e.g. clang++ is not installed) is reported as a compile error too.
+// The least recently used builds are evicted once the cache outgrows BUILD_CACHE_MAX_MB.
+function getBuild(sourceCode, language, debugBuild, ubBuild) {
+  const spec = TOOLCHAINS[language];
+  const variant = ubBuild && spec.ub_builds ? spec.ub_builds[ubBuild] : undefined;
+  const flags = variant ? variant.flags : debugBuild && spec.debug ? spec.debug.flags : [];
+  const compiler = variant ? variant.compiler : undefined;
+  const hash = crypto
+    .createHash("sha256")
+    .update([language, sourceCode, ...flags, ...(compiler ? [compiler] : [])].join("\0"))
+    .digest("hex");
+  const buildDir = path.join(BUILD_CACHE_DIR, hash);
+  if (existsSync(buildDir)) {
+    touchBuild(buildDir);
+    return Promise.resolve(buildDir);
+  }
+  if (!compilations.has(hash)) {
+    const compilation = (async () => {
+      await fs.mkdir(BUILD_CACHE_DIR, { recursive: true });
+      const tmpDir = await fs.mkdtemp(path.join("/tmp", "build_"));
+      try {
+        await fs.writeFile(path.join(tmpDir, spec.source_file), sourceCode, "utf8");
+        await compile(spec.compile(tmpDir, flags, compiler), tmpDir);
+        // Another instance may have stored the same build in the meantime, then its copy is used
+        await fs.rename(tmpDir, buildDir).catch(() => {});
+        if (!existsSync(buildDir)) {
+          throw new Error("Failed to store the build");
+        }
+        pruneBuildCache(BUILD_CACHE_DIR, BUILD_CACHE_MAX_MB * 1024 * 1024);
+        return buildDir;
+      } finally {
+        await fs.rm(tmpDir, { recursive: true, force: true });
+      }
+    })().finally(() => compilations.delete(hash));
+    compilations.set(hash, compilation);
+  }
+  return compilations.get(hash);
 }
 
-async function uploadToGCS(localPath, destFilename) {
-  console.log(`Uploading to GCS: ${localPath} as ${destFilename}`);
-  const bucketName = "hacker-bucket"; // Replace with the bucket name you created
-  await storage.bucket(bucketName).upload(localPath, {
-    destination: destFilename,
+function compile(command, tmpDir) {
+  return new Promise((resolve, reject) => {
+    execFile(command[0], command.slice(1), (error, stdout, stderr) => {
+      if (error) {
+        reject((stderr || stdout || error.message).split(tmpDir).join("."));
+      } else {
+        resolve();
+      }
+    });
   });
-  return `gs://${bucketName}/${destFilename}`;
+}
+
+// Runs the build on the input and classifies the run, through the interactor when the problem is interactive
+async function runSolution(language, debugBuild, buildDir, interactor, interactorDir, inputPath, outputPath, reportPath, limits) {
+  if (interactor) {
+    return runInteractive(language, debugBuild, buildDir, interactor, interactorDir, inputPath, outputPath, reportPath, limits);
+  }
+  const stderr = await run(language, debugBuild, buildDir, inputPath, outputPath, reportPath, limits);
+  return classifyRun(JSON.parse(await fs.readFile(reportPath, "utf8")), stderr, limits);
+}
+
+// Runs the build inside the sandbox runner, which enforces the limits and
+// writes the measured usage to reportPath. Resolves with the program's stderr.
+async function run(language, debugBuild, buildDir, inputPath, outputPath, reportPath, limits) {
+  const spec = TOOLCHAINS[language];
+  const debug = debugBuild ? spec.debug : undefined;
+  const input = openSync(inputPath, "r");
+  const output = openSync(outputPath, "w");
+  try {
+    const child = spawn(
+      SANDBOX_RUNNER,
+      [...runnerArgs(spec.limit_address_space && !debug, limits, reportPath), ...spec.run(buildDir, limits.memory_limit_mb)],
+      { stdio: [input, output, "pipe"], env: { ...process.env, ...(debug ? debug.env : {}) } }
+    );
+    return await collectStderr(child);
+  } finally {
+    closeSync(input);
+    closeSync(output);
+  }
+}
+
+// Runs the solution and the interactor side by side in the sandbox runner, each one's stdout piped to the other's stdin.
+// The interactor is run as `interactor <input> <output>` and its log becomes the output of the run.
+// Every line the solution sends counts as a query, going over max_queries stops both programs.
+async function runInteractive(language, debugBuild, buildDir, interactor, interactorDir, inputPath, outputPath, reportPath, limits) {
+  const spec = TOOLCHAINS[language];
+  const debug = debugBuild ? spec.debug : undefined;
+  const interactorReportPath = `${reportPath}.interactor`;
+  const solution = spawn(
+    SANDBOX_RUNNER,
+    [...runnerArgs(spec.limit_address_space && !debug, limits, reportPath), ...spec.run(buildDir, limits.memory_limit_mb)],
+    { stdio: ["pipe", "pipe", "pipe"], env: { ...process.env, ...(debug ? debug.env : {}) } }
+  );
+  const judge = spawn(
+    SANDBOX_RUNNER,
+    [...runnerArgs(false, limits, interactorReportPath), ...TOOLCHAINS.cpp.run(interactorDir), inputPath, outputPath],
+    { stdio: ["pipe", "pipe", "pipe"] }
+  );
+
+  // Either side may exit first, writes to its closed stdin are dropped
+  solution.stdin.on("error", () => {});
+  judge.stdin.on("error", () => {});
+
+  let queries = 0;
+  let queryLimitExceeded = false;
+  solution.stdout.on("data", (chunk) => {
+    if (queryLimitExceeded) {
+      return;
+    }
+    queries += chunk.filter((byte) => byte === 0x0a).length;
+    if (interactor.max_queries !== undefined && interactor.max_queries !== null && queries > interactor.max_queries) {
+      queryLimitExceeded = true;
+      solution.kill();
+      judge.kill();
+      return;
+    }
+    judge.stdin.write(chunk);
+  });
+  judge.stdout.on("data", (chunk) => solution.stdin.write(chunk));
+  // The runner closes its own copy of the pipes, so a stdout ends when the program behind it exits
+  let solutionExited = false;
+  let interactorExitedFirst = false;
+  solution.stdout.on("end", () => {
+    solutionExited = true;
+    judge.stdin.end();
+  });
+  judge.stdout.on("end", () => {
+    interactorExitedFirst = !solutionExited;
+    solution.stdin.end();
+  });
+
+  const [stderr, interactorStderr] = await Promise.all([collectStderr(solution), collectStderr(judge)]);
+  const result = classifyRun(JSON.parse(await fs.readFile(reportPath, "utf8")), stderr, limits);
+  const interactorReport = JSON.parse(await fs.readFile(interactorReportPath, "utf8"));
+  return classifyInteraction(result, interactorReport, interactorStderr, interactorExitedFirst, queryLimitExceeded ? interactor.max_queries : undefined);
 }
 
 // Server setup
@@ -0,0 +1,140 @@
+// Blob storage drivers, mirrors www/app/services/blobStorage.ts.
+// Inputs are fetched by their url (gs://, s3:// or file://), outputs go to the storage chosen by STORAGE_DRIVER.
+
+const crypto = require("crypto");
+const fs = require("fs");
+const fsp = fs.promises;
+const path = require("path");
+const { pipeline } = require("stream/promises");
+const { Storage } = require("@google-cloud/storage");
+const {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} = require("@aws-sdk/client-s3");
+
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || "gcs";
+const STORAGE_BUCKET = process.env.STORAGE_BUCKET || "hacker-bucket";
+const STORAGE_DIR = process.env.STORAGE_DIR || "/tmp/blobs";
+const S3_ENDPOINT = process.env.S3_ENDPOINT;
+const S3_REGION = process.env.S3_REGION || "us-east-1";
+
+// Clients are created on first use, so a worker on S3 or fs needs no GCP credentials
+let gcs;
+let s3;
+const gcsClient = () => (gcs = gcs || new Storage());
+const s3Client = () =>
+  (s3 =
+    s3 ||
+    new S3Client({ region: S3_REGION, endpoint: S3_ENDPOINT, forcePathStyle: !!S3_ENDPOINT }));
+
+function parseUrl(url) {
+  const [scheme, bucketWithPath] = url.split("://");
+  const [bucket, ...keyParts] = bucketWithPath.split("/");
+  return { scheme, bucket, key: keyParts.join("/") };
+}
+
+const drivers = {
+  gcs: {
+    scheme: "gs",
+    async exists(bucket, key) {
+      const [exists] = await gcsClient().bucket(bucket).file(key).exists();
+      return exists;
+    },
+    async upload(bucket, key, localPath) {
+      await gcsClient().bucket(bucket).upload(localPath, { destination: key });
+    },
+    async download(bucket, key, destPath) {
+      await gcsClient().bucket(bucket).file(key).download({ destination: destPath });
+    },
+  },
+  s3: {
+    scheme: "s3",
+    async exists(bucket, key) {
+      try {
+        await s3Client().send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+        return true;
+      } catch (error) {
+        if (error.name === "NotFound") {
+          return false;
+        }
+        throw error;
+      }
+    },
+    async upload(bucket, key, localPath) {
+      const { size } = await fsp.stat(localPath);
+      await s3Client().send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: fs.createReadStream(localPath),
+          ContentLength: size,
+        })
+      );
+    },
+    async download(bucket, key, destPath) {
+      const response = await s3Client().send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      await pipeline(response.Body, fs.createWriteStream(destPath));
+    },
+  },
+  // The "bucket" of a file:// url is empty, the key is the absolute path
+  fs: {
+    scheme: "file",
+    async exists(bucket, key) {
+      return fs.existsSync(path.join("/", key));
+    },
+    async upload(bucket, key, localPath) {
+      const destPath = path.join("/", key);
+      await fsp.mkdir(path.dirname(destPath), { recursive: true });
+      const tmpPath = `${destPath}.${process.pid}.tmp`;
+      await fsp.copyFile(localPath, tmpPath);
+      await fsp.rename(tmpPath, destPath);
+    },
+    async download(bucket, key, destPath) {
+      await fsp.copyFile(path.join("/", key), destPath);
+    },
+  },
+};
+
+function driverForScheme(scheme) {
+  const driver = Object.values(drivers).find((driver) => driver.scheme === scheme);
+  if (!driver) {
+    throw new Error(`Unsupported storage url scheme: ${scheme}`);
+  }
+  return driver;
+}
+
+async function downloadBlob(url, destPath) {
+  console.log(`Downloading ${url} to ${destPath}`);
+  const { scheme, bucket, key } = parseUrl(url);
+  await driverForScheme(scheme).download(bucket, key, destPath);
+}
+
+function sha256OfFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+// Stores the file under the SHA-256 of its content, identical outputs are uploaded once
+async function uploadContentAddressed(localPath, prefix) {
+  const driver = drivers[STORAGE_DRIVER];
+  if (!driver) {
+    throw new Error(`Unsupported STORAGE_DRIVER: ${STORAGE_DRIVER}`);
+  }
+  const hash = await sha256OfFile(localPath);
+  const bucket = STORAGE_DRIVER === "fs" ? "" : STORAGE_BUCKET;
+  const key = STORAGE_DRIVER === "fs" ? path.join(STORAGE_DIR, prefix, hash).slice(1) : `${prefix}/${hash}`;
+  if (!(await driver.exists(bucket, key))) {
+    console.log(`Uploading ${localPath} as ${key}`);
+    await driver.upload(bucket, key, localPath);
+  }
+  return `${driver.scheme}://${bucket}/${key}`;
+}
+
+module.exports = { downloadBlob, uploadContentAddressed };
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { SyntheticTest } from '@/app/types/tests';
+import { DroppedTest, SyntheticTest } from '@/app/types/tests';
 import fs from 'fs';
 import path from 'path';
 import { PROBLEMS_PATH } from '../../config/config';
@@ -7,6 +7,8 @@ import { get_synthetic_tests_prompt } from '../../services/prompts';
 import llm from '../../services/llm';
 import { Model } from '../../types/models';
 import * as promptLogger from '../../services/promptLogger';
+import { validateInputs } from '../../services/inputValidator';
+import { registerClaims } from '../../services/crossCheck';
 
 async function getSyntheticTests(problem: string, model: Model): Promise<SyntheticTest[]> {
     // Read problem data
@@ -21,7 +23,7 @@ async function getSyntheticTests(problem: string, model: Model): Promise<Synthet
     promptLogger.log(problem, 'Synthetic Tests Prompt', prompt);
 
     // Get synthetic tests from LLM
-    const response = await llm(prompt, model, true);
+    const response = await llm(prompt, model, { problem, stage: 'synthetic_tests' }, true);
 
     // Parse the JSON response
     let testsData;
@@ -52,6 +54,20 @@ async function getSyntheticTests(problem: string, model: Model): Promise<Synthet
     return testsData.tests;
 }
 
+// Splits the tests into the ones following the statement and the ones the input validator rejects
+async function dropInvalidTests(problem: string, tests: SyntheticTest[]): Promise<{ tests: SyntheticTest[]; dropped: DroppedTest[] }> {
+    const rejections = await validateInputs(problem, tests.map(test => test.input));
+    const dropped: DroppedTest[] = [];
+    const valid = tests.filter((test, i) => {
+        const reason = rejections[i];
+        if (reason !== undefined) {
+            dropped.push({ test, reason });
+        }
+        return reason === undefined;
+    });
+    return { tests: valid, dropped };
+}
+
 export async function GET(request: Request) {
     // Get the problem parameter from the URL
     const { searchParams } = new URL(request.url);
@@ -66,8 +82,10 @@ export async function GET(request: Request) {
     }
 
     try {
-        const tests = await getSyntheticTests(problem, model);
-        return NextResponse.json({ tests });
+        const { tests, dropped } = await dropInvalidTests(problem, await getSyntheticTests(problem, model));
+        // Expected outputs are the model's guess, they become hard gates only once confirmed, see crossCheck.ts
+        registerClaims(problem, tests);
+        return NextResponse.json({ tests, dropped });
     } catch (error) {
         console.error('Error generating synthetic tests:', error);
         return NextResponse.json(
@@ -33,7 +33,7 @@ export async function GET(request: Request) {
       const sampleOutput = fs.readFileSync(path.join(problemDir, 'sample_out.txt'), 'utf8');
       const prompt = prompts.is_only_one_output_valid_prompt(problemStatement, sampleInput, sampleOutput);
       promptLogger.log(problem, 'Is Only One Output Valid Prompt', prompt);
-      const result = await llm(prompt, IS_ONLY_ONE_OUTPUT_VALID_MODEL);
+      const result = await llm(prompt, IS_ONLY_ONE_OUTPUT_VALID_MODEL, { problem, stage: 'judge' });
       console.log('RESULT:', result);
       // If file doesn't exist or is invalid, calculate new value
       is_only_one_output_valid = result !== 'MULTIPLE';
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { DeltaListener, Model } from '../../types/models';
+import * as prompts from '../../services/prompts';
+import fs from 'fs';
+import path from 'path';
+import { PROBLEMS_PATH } from '../../config/config';
+import { getProblemMetadata } from '../../services/problemMetadata';
+import llm from '../../services/llm';
+import * as algo_rag from '../../services/algo_rag';
+import * as promptLogger from '../../services/promptLogger';
+import { streamableResponse } from '../../services/streaming';
+import {parseCode} from '../../services/parse_utils'
+import { Language } from '../../types/language';
+
+async function obtainWellFormattedSolution(problem: string, model: Model, solution: string, language: Language, issues: string[], attack_vector?: string, tags?: string[], onDelta?: DeltaListener): Promise<string> {
+    const problemDir = path.join(PROBLEMS_PATH, problem);
+    const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
+    const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
+    const sampleOutput = fs.readFileSync(path.join(problemDir, 'sample_out.txt'), 'utf8').trim();
+
+    const techniques = algo_rag.get_techniques_from_tags(tags || []);
+
+    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, [], getProblemMetadata(problem), language);
+    const first_messages = Array.isArray(initial_prompt) ? initial_prompt : [{ role: "user" as const, content: initial_prompt }];
+
+    const output_format_prompt = prompts.output_format_prompt(issues, language);
+    const messages = [
+        ...first_messages,
+        { role: "assistant" as const, content: solution },
+        { role: "user" as const, content: output_format_prompt },
+    ]
+    promptLogger.log(problem, 'Output Format Recovery Prompt', messages);
+    const cppCodeUnformated = await llm(messages, model, { problem, stage: 'recovery' }, false, onDelta);
+    return parseCode(cppCodeUnformated, language);
+}
+
+export async function POST(request: Request) {
+    // Get the problem from URL params
+    const { searchParams } = new URL(request.url);
+    const problem = searchParams.get('problem');
+    const model = searchParams.get('model') as Model;
+
+    // Get solution, the format issues of its full output, attack_vector and tags from request body
+    const body = await request.json();
+    const { solution, issues, attack_vector, tags, language = 'cpp' } = body;
+
+    if (!model) {
+        return NextResponse.json({ error: 'Model parameter is required' }, { status: 400 });
+    }
+    if (!problem) {
+        return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
+    }
+    if (!solution) {
+        return NextResponse.json({ error: 'Solution parameter is required' }, { status: 400 });
+    }
+    if (!Array.isArray(issues) || issues.length === 0) {
+        return NextResponse.json({ error: 'Issues parameter is required' }, { status: 400 });
+    }
+
+    return streamableResponse(request, async onDelta => {
+        const fixed_solution = await obtainWellFormattedSolution(problem, model, solution, language, issues, attack_vector, tags, onDelta);
+        return { solution: fixed_solution };
+    });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { probePerformance } from '../../services/perfProbe';
+
+export async function POST(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const problem = searchParams.get('problem');
+
+    const body = await request.json();
+    const { solution, language = 'cpp' } = body;
+
+    if (!problem) {
+        return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
+    }
+
+    if (!solution) {
+        return NextResponse.json({ error: 'Solution parameter is required' }, { status: 400 });
+    }
+
+    const result = await probePerformance(problem, solution, language);
+
+    return NextResponse.json(result);
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { saveSolution, calculateFullSolution } from '../../services/solution';
+import { checkForUndefinedBehavior } from '../../services/ubCheck';
+import { verifyOutputFormat } from '../../services/outputFormat';
+import { UB_CHECK } from '../../config/config';
 
 export async function POST(request: Request) {
     // Get the problem from URL params
@@ -8,7 +11,7 @@ export async function POST(request: Request) {
 
     // Get solution from request body
     const body = await request.json();
-    const { solution, qa_validated } = body;
+    const { solution, qa_validated, language = 'cpp' } = body;
 
     if (!problem) {
         return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
@@ -20,13 +23,47 @@ export async function POST(request: Request) {
 
     try {
         // Calculate the solution for the full input
-        const output = await calculateFullSolution(problem, solution);
-        
+        const result = await calculateFullSolution(problem, solution, language);
+
+        if (result.verdict) {
+            return NextResponse.json({
+                success: false,
+                verdict: result.verdict,
+                is_time_limit_exceeded: result.verdict === 'TLE',
+                usage: result.usage,
+            });
+        }
+
+        // A truncated or misnumbered output would be a wasted submission
+        const format = verifyOutputFormat(problem, result.output);
+        if (!format.is_valid) {
+            return NextResponse.json({
+                success: false,
+                format_issues: format.issues,
+                usage: result.usage,
+            });
+        }
+
+        // An output depending on the build is likely wrong, even when it matched on every test so far
+        if (UB_CHECK) {
+            const ubCheck = await checkForUndefinedBehavior(problem, solution, language);
+            if (ubCheck.status === 'diverged') {
+                return NextResponse.json({
+                    success: false,
+                    verdict: 'RE',
+                    ub_check: ubCheck,
+                    usage: result.usage,
+                });
+            }
+        }
+
         // Save the solution with the calculated output
-        await saveSolution(problem, solution, output, qa_validated);
+        await saveSolution(problem, solution, language, result.output, qa_validated);
 
         return NextResponse.json({ 
           success: true,
+          verdict: 'AC',
+          usage: result.usage,
         });
     } catch (error) {
         console.error('Error running tests:', error);
@@ -4,16 +4,22 @@ import * as prompts from '../../services/prompts';
 import fs from 'fs';
 import path from 'path';
 import { PROBLEMS_PATH } from '../../config/config';
+import { getProblemMetadata } from '../../services/problemMetadata';
 import llm from '../../services/llm';
 import * as algo_rag from '../../services/algo_rag';
 import { getEdgeCases, validateSolution } from '@/app/services/solution';
 import * as promptLogger from '../../services/promptLogger';
 import { SyntheticTest } from '../../types/tests';
+import { Verdict } from '../../types/execution';
+import { Language } from '../../types/language';
 
-async function improveAndValidateSolution(problem: string, model: Model, solution: string, attack_vector?: string, tags?: string[], tests?: SyntheticTest[]): Promise<{
+async function improveAndValidateSolution(problem: string, model: Model, solution: string, language: Language, attack_vector?: string, tags?: string[], tests?: SyntheticTest[]): Promise<{
     is_valid: boolean;
+    verdict: Verdict;
     is_time_limit_exceeded: boolean;
+    compile_error: string | null;
     runtime_error: string | null;
+    sanitizer_report: string | null;
     wrong_answer: string | null;
     improved_solution?: string;
 }> {
@@ -26,13 +32,13 @@ async function improveAndValidateSolution(problem: string, model: Model, solutio
     // Get relevant algorithmic techniques
     const techniques = algo_rag.get_techniques_from_tags(tags || []);
 
-    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, []);
+    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, [], getProblemMetadata(problem), language);
     const first_messages = Array.isArray(initial_prompt) ? initial_prompt : [{ role: "user" as const, content: initial_prompt }];
 
     // Generate improved solution using final QA prompt
     // TODO: add edge cases - 10 small examples from the parallelize stuff
     const edge_cases = await getEdgeCases(problem);
-    const qa_prompt = prompts.final_qa_prompt(edge_cases);
+    const qa_prompt = prompts.final_qa_prompt(edge_cases, language);
     const messages = [
         ...first_messages,
         { role: "assistant" as const, content: solution },
@@ -41,7 +47,7 @@ async function improveAndValidateSolution(problem: string, model: Model, solutio
     promptLogger.log(problem, 'QA Prompt', messages);
 
     // Get improved solution from LLM
-    const improvedCodeUnformatted = await llm(messages, model);
+    const improvedCodeUnformatted = await llm(messages, model, { problem, stage: 'qa' });
     const lines = improvedCodeUnformatted.trim().split("\n");
     let improved_solution = improvedCodeUnformatted;
     if (lines[0].includes("```")) {
@@ -53,7 +59,7 @@ async function improveAndValidateSolution(problem: string, model: Model, solutio
     }
 
     // Validate the improved solution
-    const validation = await validateSolution(problem, improved_solution, tests || []);
+    const validation = await validateSolution(problem, improved_solution, language, tests || []);
 
     if (validation.is_valid) {
       // TODO: save the solution
@@ -62,8 +68,11 @@ async function improveAndValidateSolution(problem: string, model: Model, solutio
 
     return {
         is_valid: validation.is_valid,
+        verdict: validation.verdict,
         is_time_limit_exceeded: validation.is_time_limit_exceeded || false,
+        compile_error: validation.compile_error || null,
         runtime_error: validation.runtime_error || null,
+        sanitizer_report: validation.sanitizer_report || null,
         wrong_answer: validation.wrong_answer || null,
         improved_solution: improved_solution
     };
@@ -77,7 +86,7 @@ export async function POST(request: Request) {
 
     // Get solution and tags from request body
     const body = await request.json();
-    const { solution, attack_vector, tags, tests } = body;
+    const { solution, attack_vector, tags, tests, language = 'cpp' } = body;
 
     if (!problem) {
         return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
@@ -92,7 +101,7 @@ export async function POST(request: Request) {
     }
 
     try {
-        const result = await improveAndValidateSolution(problem, model, solution, attack_vector, tags, tests);
+        const result = await improveAndValidateSolution(problem, model, solution, language, attack_vector, tags, tests);
         return NextResponse.json(result);
     } catch (error) {
         console.error('Error in run_qa:', error);
@@ -1,15 +1,19 @@
 import { NextResponse } from 'next/server';
-import { Model } from '../../types/models';
+import { DeltaListener, Model } from '../../types/models';
 import * as prompts from '../../services/prompts';
 import fs from 'fs';
 import path from 'path';
 import { PROBLEMS_PATH } from '../../config/config';
+import { getProblemMetadata } from '../../services/problemMetadata';
 import llm from '../../services/llm';
 import * as algo_rag from '../../services/algo_rag';
 import * as promptLogger from '../../services/promptLogger';
+import { streamableResponse } from '../../services/streaming';
 import {parseCode} from '../../services/parse_utils'
+import { Language } from '../../types/language';
+import { BuildDivergence } from '../../types/tests';
 
-async function obtainFixedSolution(problem: string, model: Model, solution: string, error: string, attack_vector?: string, tags?: string[]): Promise<string> {
+async function obtainFixedSolution(problem: string, model: Model, solution: string, language: Language, error: string, sanitizer_report?: string, attack_vector?: string, tags?: string[], divergences?: BuildDivergence[], onDelta?: DeltaListener): Promise<string> {
     const problemDir = path.join(PROBLEMS_PATH, problem);
     const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
     const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
@@ -17,22 +21,22 @@ async function obtainFixedSolution(problem: string, model: Model, solution: stri
 
     const techniques = algo_rag.get_techniques_from_tags(tags || []);
 
-    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, []);
+    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, [], getProblemMetadata(problem), language);
     const first_messages = Array.isArray(initial_prompt) ? initial_prompt : [{ role: "user" as const, content: initial_prompt }];
 
     if (error.length > 600) {
         error = error.substring(0, 300) + "\n...\n" + error.substring(error.length - 300);
     }
 
-    const runtime_error_prompt = prompts.error_recovery_prompt(error);
+    const runtime_error_prompt = prompts.error_recovery_prompt(error, language, sanitizer_report, divergences);
     const messages = [
         ...first_messages,
         { role: "assistant" as const, content: solution },
         { role: "user" as const, content: runtime_error_prompt },
     ]
     promptLogger.log(problem, 'Runtime Error Recovery Prompt', messages);
-    const cppCodeUnformated = await llm(messages, model);
-    return parseCode(cppCodeUnformated);
+    const cppCodeUnformated = await llm(messages, model, { problem, stage: 'recovery' }, false, onDelta);
+    return parseCode(cppCodeUnformated, language);
 }
 
 export async function POST(request: Request) {
@@ -41,9 +45,9 @@ export async function POST(request: Request) {
     const problem = searchParams.get('problem');
     const model = searchParams.get('model') as Model;
 
-    // Get solution, error, attack_vector and tags from request body
+    // Get solution, error, sanitizer_report, divergences between builds, attack_vector and tags from request body
     const body = await request.json();
-    const { solution, error, attack_vector, tags } = body;
+    const { solution, error, sanitizer_report, divergences, attack_vector, tags, language = 'cpp' } = body;
 
     if (!model) {
         return NextResponse.json({ error: 'Model parameter is required' }, { status: 400 });
@@ -58,8 +62,8 @@ export async function POST(request: Request) {
         return NextResponse.json({ error: 'Error parameter is required' }, { status: 400 });
     }
 
-    const fixed_solution = await obtainFixedSolution(problem, model, solution, error, attack_vector, tags);
-
-    // Return the response
-    return NextResponse.json({ solution: fixed_solution });
+    return streamableResponse(request, async onDelta => {
+        const fixed_solution = await obtainFixedSolution(problem, model, solution, language, error, sanitizer_report, attack_vector, tags, divergences, onDelta);
+        return { solution: fixed_solution };
+    });
 } 
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { splitInput } from '../../services/splitter';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const problem = searchParams.get('problem');
+
+  if (!problem) {
+    return NextResponse.json({ error: 'Problem name is required' }, { status: 400 });
+  }
+
+  try {
+    const state = await splitInput(problem);
+    return NextResponse.json(state);
+  } catch (error) {
+    console.error('Error splitting the full input:', error);
+    return NextResponse.json({ error: 'Failed to split the full input' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { hasHandWrittenChecker, synthesizeChecker } from '../../services/checker';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const problem = searchParams.get('problem');
+
+  if (!problem) {
+    return NextResponse.json({ error: 'Problem name is required' }, { status: 400 });
+  }
+
+  // A checker.cpp from the problem author always wins, nothing to synthesize
+  if (hasHandWrittenChecker(problem)) {
+    return NextResponse.json({ status: 'provided' });
+  }
+
+  const { status, corruptions_rejected, error } = await synthesizeChecker(problem);
+  return NextResponse.json({ status, corruptions_rejected, error });
+}
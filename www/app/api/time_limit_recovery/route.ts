@@ -1,15 +1,19 @@
 import { NextResponse } from 'next/server';
-import { Model } from '../../types/models';
+import { DeltaListener, Model } from '../../types/models';
 import * as prompts from '../../services/prompts';
 import fs from 'fs';
 import path from 'path';
 import { PROBLEMS_PATH } from '../../config/config';
+import { getProblemMetadata } from '../../services/problemMetadata';
 import llm from '../../services/llm';
 import * as algo_rag from '../../services/algo_rag';
 import * as promptLogger from '../../services/promptLogger';
+import { streamableResponse } from '../../services/streaming';
 import {parseCode} from '../../services/parse_utils'
+import { Language } from '../../types/language';
+import { PerfProbeResult } from '../../types/tests';
 
-async function obtainOptimizedSolution(problem: string, model: Model, solution: string, attack_vector?: string, tags?: string[]): Promise<string> {
+async function obtainOptimizedSolution(problem: string, model: Model, solution: string, language: Language, attack_vector?: string, tags?: string[], timings?: PerfProbeResult, onDelta?: DeltaListener): Promise<string> {
     const problemDir = path.join(PROBLEMS_PATH, problem);
     const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
     const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
@@ -17,9 +21,9 @@ async function obtainOptimizedSolution(problem: string, model: Model, solution:
 
     const techniques = algo_rag.get_techniques_from_tags(tags || []);
 
-    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, []);
+    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, [], getProblemMetadata(problem), language);
     const first_messages = Array.isArray(initial_prompt) ? initial_prompt : [{ role: "user" as const, content: initial_prompt }];
-    const time_limit_prompt = prompts.time_limit_prompt();
+    const time_limit_prompt = prompts.time_limit_prompt(language, timings);
     
     const messages = [
         ...first_messages,
@@ -28,8 +32,8 @@ async function obtainOptimizedSolution(problem: string, model: Model, solution:
     ]
     
     promptLogger.log(problem, 'Time Limit Exceeded Recovery Prompt', messages);
-    const cppCodeUnformated = await llm(messages, model);
-    return parseCode(cppCodeUnformated);
+    const cppCodeUnformated = await llm(messages, model, { problem, stage: 'recovery' }, false, onDelta);
+    return parseCode(cppCodeUnformated, language);
 }
 
 export async function POST(request: Request) {
@@ -38,9 +42,9 @@ export async function POST(request: Request) {
     const problem = searchParams.get('problem');
     const model = searchParams.get('model') as Model;
 
-    // Get solution, attack_vector and tags from request body
+    // Get solution, attack_vector, tags and the performance probe timings from request body
     const body = await request.json();
-    const { solution, attack_vector, tags } = body;
+    const { solution, attack_vector, tags, timings, language = 'cpp' } = body;
 
     if (!model) {
         return NextResponse.json({ error: 'Model parameter is required' }, { status: 400 });
@@ -54,8 +58,8 @@ export async function POST(request: Request) {
         return NextResponse.json({ error: 'Solution parameter is required' }, { status: 400 });
     }
 
-    const optimized_solution = await obtainOptimizedSolution(problem, model, solution, attack_vector, tags);
-
-    // Return the response
-    return NextResponse.json({ solution: optimized_solution });
+    return streamableResponse(request, async onDelta => {
+        const optimized_solution = await obtainOptimizedSolution(problem, model, solution, language, attack_vector, tags, timings, onDelta);
+        return { solution: optimized_solution };
+    });
 } 
\ No newline at end of file
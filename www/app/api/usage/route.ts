@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { readUsage, startUsageRun } from '../../services/usage';
+
+export const dynamic = 'force-dynamic';
+
+// The LLM usage of the current run of the problem
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const problem = searchParams.get('problem');
+
+    if (!problem) {
+        return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ usage: readUsage(problem).current ?? null });
+}
+
+// Starts a new run, the usage of the previous one stays in _state/usage.json
+export async function POST(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const problem = searchParams.get('problem');
+
+    if (!problem) {
+        return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
+    }
+
+    return NextResponse.json({ usage: startUsageRun(problem) });
+}
@@ -6,7 +6,7 @@ export async function POST(request: Request) {
     const problem = searchParams.get('problem');
 
     const body = await request.json();
-    const { solution, attack_vector, tags, tests } = body;
+    const { solution, attack_vector, tags, tests, language = 'cpp' } = body;
 
     if (!problem) {
         return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
@@ -16,7 +16,7 @@ export async function POST(request: Request) {
         return NextResponse.json({ error: 'Solution parameter is required' }, { status: 400 });
     }
 
-    const result = await validateSolution(problem, solution, tests || []);
+    const result = await validateSolution(problem, solution, language, tests || []);
 
     return NextResponse.json(result);
 } 
\ No newline at end of file
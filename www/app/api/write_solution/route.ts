@@ -4,14 +4,17 @@ import * as prompts from '../../services/prompts';
 import fs from 'fs';
 import path from 'path';
 import { PROBLEMS_PATH } from '../../config/config';
+import { getProblemMetadata } from '../../services/problemMetadata';
 import llm from '../../services/llm';
-import { Model } from '../../types/models';
+import { DeltaListener, Model } from '../../types/models';
 import * as algo_rag from '../../services/algo_rag';
 import * as promptLogger from '../../services/promptLogger';
+import { streamableResponse } from '../../services/streaming';
 import {parseCode} from '../../services/parse_utils'
+import { Language } from '../../types/language';
 import { SyntheticTest } from '../../types/tests';
 
-async function comeUpWithSolution(problem: string, model: Model, attack_vector?: string, tags?: string[], tests?: SyntheticTest[]): Promise<string> {
+async function comeUpWithSolution(problem: string, model: Model, language: Language, attack_vector?: string, tags?: string[], tests?: SyntheticTest[], onDelta?: DeltaListener): Promise<string> {
     const problemDir = path.join(PROBLEMS_PATH, problem);
     const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
     const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
@@ -19,10 +22,10 @@ async function comeUpWithSolution(problem: string, model: Model, attack_vector?:
 
     const techniques = algo_rag.get_techniques_from_tags(tags || []);
 
-    const main_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, tests || []);
+    const main_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, tests || [], getProblemMetadata(problem), language);
     promptLogger.log(problem, 'Main Solution Prompt', main_prompt);
-    const cppCodeUnformated = await llm(main_prompt, model);
-    return parseCode(cppCodeUnformated);
+    const cppCodeUnformated = await llm(main_prompt, model, { problem, stage: 'write_solution' }, false, onDelta);
+    return parseCode(cppCodeUnformated, language);
 }
 
 
@@ -32,9 +35,9 @@ export async function POST(request: Request) {
     const problem = searchParams.get('problem');
     const model = searchParams.get('model') as Model;
 
-    // Get attack_vector and tags from request body
+    // Get attack_vector, tags and the solution language from request body
     const body = await request.json();
-    const { attack_vector, tags, tests } = body;
+    const { attack_vector, tags, tests, language = 'cpp' } = body;
 
     if (!problem) {
         return NextResponse.json({ error: 'Problem parameter is required' }, { status: 400 });
@@ -44,8 +47,9 @@ export async function POST(request: Request) {
         return NextResponse.json({ error: 'Model parameter is required' }, { status: 400 });
     }
 
-    const solution = await comeUpWithSolution(problem, model, attack_vector, tags, tests);
-    console.log('SOLUTION: ', solution);
-    // Return the response
-    return NextResponse.json({ solution });
+    return streamableResponse(request, async onDelta => {
+        const solution = await comeUpWithSolution(problem, model, language, attack_vector, tags, tests, onDelta);
+        console.log('SOLUTION: ', solution);
+        return { solution };
+    });
 } 
\ No newline at end of file
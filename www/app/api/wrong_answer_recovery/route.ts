@@ -1,16 +1,20 @@
 import { NextResponse } from 'next/server';
-import { Model } from '../../types/models';
+import { DeltaListener, Model } from '../../types/models';
 
 import * as prompts from '../../services/prompts';
 import fs from 'fs';
 import path from 'path';
 import { PROBLEMS_PATH } from '../../config/config';
+import { getProblemMetadata } from '../../services/problemMetadata';
 import llm from '../../services/llm';
 import * as algo_rag from '../../services/algo_rag';
 import * as promptLogger from '../../services/promptLogger';
+import { streamableResponse } from '../../services/streaming';
 import {parseCode} from '../../services/parse_utils'
+import { Language } from '../../types/language';
+import { Counterexample } from '../../types/tests';
 
-async function obtainFixedSolution(problem: string, model: Model, solution: string, wrong_answer: string, attack_vector?: string, tags?: string[]): Promise<string> {
+async function obtainFixedSolution(problem: string, model: Model, solution: string, language: Language, wrong_answer: string, attack_vector?: string, tags?: string[], counterexample?: Counterexample, onDelta?: DeltaListener): Promise<string> {
     const problemDir = path.join(PROBLEMS_PATH, problem);
     const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
     const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
@@ -18,9 +22,12 @@ async function obtainFixedSolution(problem: string, model: Model, solution: stri
 
     const techniques = algo_rag.get_techniques_from_tags(tags || []);
 
-    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, []);
+    const initial_prompt = prompts.main_prompt(statement, sampleInput, sampleOutput, attack_vector, techniques, [], getProblemMetadata(problem), language);
 
-    const wrong_answer_prompt = prompts.wrong_answer_prompt(sampleInput, sampleOutput, wrong_answer);
+    // A counterexample from the stress test is a concrete failing input, it replaces the sample in the prompt
+    const wrong_answer_prompt = counterexample
+        ? prompts.counterexample_prompt(counterexample.input, counterexample.expected_output, counterexample.actual_output, language)
+        : prompts.wrong_answer_prompt(sampleInput, sampleOutput, wrong_answer, language);
     const first_messages = Array.isArray(initial_prompt) ? initial_prompt : [{ role: "user" as const, content: initial_prompt }];
     const messages = [
       ...first_messages,
@@ -28,8 +35,8 @@ async function obtainFixedSolution(problem: string, model: Model, solution: stri
       { role: "user" as const, content: wrong_answer_prompt },
     ]
     promptLogger.log(problem, 'Wrong Answer Recovery Prompt', messages);
-    const cppCodeUnformated = await llm(messages, model);
-    return parseCode(cppCodeUnformated);
+    const cppCodeUnformated = await llm(messages, model, { problem, stage: 'recovery' }, false, onDelta);
+    return parseCode(cppCodeUnformated, language);
 }
 
 export async function POST(request: Request) {
@@ -40,7 +47,7 @@ export async function POST(request: Request) {
 
     // Get solution, wrong_answer, attack_vector and tags from request body
     const body = await request.json();
-    const { solution, wrong_answer, attack_vector, tags } = body;
+    const { solution, wrong_answer, attack_vector, tags, counterexample, language = 'cpp' } = body;
 
     if (!model) {
         return NextResponse.json({ error: 'Model parameter is required' }, { status: 400 });
@@ -61,8 +68,8 @@ export async function POST(request: Request) {
     // Simulate a delay of 1 second
     await new Promise(resolve => setTimeout(resolve, 1000));
 
-    const fixed_solution = await obtainFixedSolution(problem, model, solution, wrong_answer, attack_vector, tags);
-
-    // Return the response
-    return NextResponse.json({ solution: fixed_solution });
+    return streamableResponse(request, async onDelta => {
+        const fixed_solution = await obtainFixedSolution(problem, model, solution, language, wrong_answer, attack_vector, tags, counterexample, onDelta);
+        return { solution: fixed_solution };
+    });
 } 
\ No newline at end of file
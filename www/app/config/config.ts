@@ -1,11 +1,83 @@
 import path from 'path';
-import { Model } from '../types/models';
+import { LLMCacheMode, LLMProvider, LLMProviderConfig, Model, ModelConfig } from '../types/models';
+import { ExecutionBackendName } from '../types/execution';
+import { Language } from '../types/language';
+import { BlobStorageName } from '../types/storage';
 
-// RECOMMENDED:specify yours CLOUD EXECUTE URL after deploying ./cloud-run-worker to google cloud run
-export const CLOUD_EXECUTE_URL = "https://cloud-run-worker-313568160682.us-central1.run.app/compute";
+// Where solutions are compiled and executed:
+// 'cloud' - the ./cloud-run-worker deployed to google cloud run, large inputs/outputs are passed through the blob storage
+// 'local' - the toolchains on this machine (g++, python3, javac, rustc), every run gets a temp dir and is limited by ulimit (no GCP project needed)
+export const EXECUTION_BACKEND: ExecutionBackendName = 'cloud';
 
-// OpenAI models use ChatGPT subscription OAuth (Codex)
-// If use qwq or llama models, please specify together.ai TOGETHER_API_KEY= in config.env file
+// RECOMMENDED:specify yours CLOUD WORKER URL after deploying ./cloud-run-worker to google cloud run
+// More workers can be listed (other regions, a local `node server.js`), each request goes to the healthy one
+// with the lowest load and fails over to the next one if it is down
+export const CLOUD_WORKER_URLS: string[] = [
+  "https://cloud-run-worker-313568160682.us-central1.run.app",
+];
+// How often the workers' /health is polled, a worker that fails a request is skipped until the next check
+export const WORKER_HEALTH_CHECK_INTERVAL_MS = 15000;
+
+// Where full inputs and outputs are exchanged with the cloud worker, the worker must use the same storage (see its README):
+// 'gcs' - a Google Cloud Storage bucket
+// 's3' - an S3 bucket, or any S3-compatible storage when S3_ENDPOINT is set (credentials from AWS_* env vars in config.env)
+// 'fs' - a dir shared with the worker, e.g. when it runs on the same machine
+// Objects are named by the SHA-256 of their content, so an edited full_in.txt is uploaded again
+export const BLOB_STORAGE: BlobStorageName = 'gcs';
+export const BLOB_BUCKET = 'hacker-bucket';
+export const GCS_PROJECT_ID = 'hackercup';
+export const S3_ENDPOINT: string | undefined = undefined; // e.g. 'http://localhost:9000' for MinIO
+export const S3_REGION = 'us-east-1';
+export const BLOB_STORAGE_DIR = path.join(process.cwd(), '..', 'BLOBS');
+
+// Default resource limits, can be overridden per problem in PROBLEMS/<problem>/metadata.json
+// Runs exceeding a limit get a TLE/MLE/OLE verdict, TLE goes to time limit recovery
+export const DEFAULT_TIME_LIMIT_SECONDS = 10;
+export const DEFAULT_MEMORY_LIMIT_MB = 8000;
+export const DEFAULT_OUTPUT_LIMIT_MB = 256;
+// The full input contains all the test cases at once, so it gets a bigger time budget
+export const DEFAULT_FULL_TIME_LIMIT_SECONDS = 200;
+
+// The APIs serving the models. API keys are read from the env vars named by api_key_env in config.env.
+// The agents of all running problems share the max_concurrent_requests of a provider, so starting several problems
+// at once does not hit 429s (see MAX_CONCURRENT_REQUESTS below)
+export const LLM_PROVIDERS: Record<LLMProvider, LLMProviderConfig> = {
+  codex: { kind: 'codex', max_concurrent_requests: 8 },
+  together: { kind: 'together', api_key_env: 'TOGETHER_API_KEY', max_concurrent_requests: 8 },
+  openai: { kind: 'openai', api_key_env: 'OPENAI_API_KEY', max_concurrent_requests: 8 },
+  local: { kind: 'openai_compatible', base_url: 'http://localhost:8000/v1', max_concurrent_requests: 2 },
+  mock: { kind: 'mock', max_concurrent_requests: 8 },
+}
+
+// Every model the agents can use, a new one only needs an entry here (and a count in the tables below)
+const CODEX_CAPABILITIES = { json_mode: false, reasoning: true, context_tokens: 400000, max_output_tokens: 128000 };
+export const LLM_MODELS: Record<Model, ModelConfig> = {
+  'gpt-5.3-codex': { provider: 'codex', api_model: 'gpt-5.3-codex', capabilities: CODEX_CAPABILITIES },
+  'gpt-5.2-codex': { provider: 'codex', api_model: 'gpt-5.2-codex', capabilities: CODEX_CAPABILITIES },
+  'gpt-5.2': { provider: 'codex', api_model: 'gpt-5.2', capabilities: CODEX_CAPABILITIES },
+  'gpt-5.1-codex': { provider: 'codex', api_model: 'gpt-5.1-codex', capabilities: CODEX_CAPABILITIES },
+  'gpt-5.1-codex-mini': { provider: 'codex', api_model: 'gpt-5.1-codex-mini', capabilities: CODEX_CAPABILITIES },
+  'gpt-5.1-codex-max': { provider: 'codex', api_model: 'gpt-5.1-codex-max', capabilities: CODEX_CAPABILITIES },
+  'qwq-32b-preview': {
+    provider: 'together',
+    api_model: 'Qwen/QwQ-32B-Preview',
+    capabilities: { json_mode: false, reasoning: true, context_tokens: 32768, max_output_tokens: 8192 },
+    final_answer_model: 'llama-3.3-70b',
+    price_per_million_tokens: { input: 1.2, output: 1.2 },
+  },
+  'llama-3.3-70b': {
+    provider: 'together',
+    api_model: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
+    capabilities: { json_mode: false, reasoning: false, context_tokens: 131072, max_output_tokens: 8192 },
+    price_per_million_tokens: { input: 0.88, output: 0.88 },
+  },
+  // Scripted answers for the pipeline tests, see services/mockLLM.ts
+  'mock': { provider: 'mock', api_model: 'mock', capabilities: { json_mode: true, reasoning: false, context_tokens: 1000000, max_output_tokens: 100000 } },
+  // With an OPENAI_API_KEY:
+  // 'gpt-4.1': { provider: 'openai', api_model: 'gpt-4.1', capabilities: { json_mode: true, reasoning: false, context_tokens: 1047576, max_output_tokens: 32768 }, price_per_million_tokens: { input: 2, output: 8 } },
+  // Served by `vllm serve Qwen/Qwen3-32B` on this machine:
+  // 'qwen3-32b': { provider: 'local', api_model: 'Qwen/Qwen3-32B', capabilities: { json_mode: true, reasoning: true, context_tokens: 32768, max_output_tokens: 16384 } },
+}
 
 // Defines how many parallel LLM calls to launch to generate synthetic tests for a problem
 export const syntheticTestCallsPerModel: Record<Model, number> = {
@@ -68,6 +140,33 @@ export const directSolutionCallsPerModel: Record<Model, number> = {
   'llama-3.3-70b': 0,
 }
 
+// Defines in which language each model writes its solutions: 'cpp', 'python', 'java' or 'rust'
+// Prompts, execution and the saved SOLUTION.<ext> follow this choice
+export const solutionLanguagePerModel: Record<Model, Language> = {
+  'gpt-5.3-codex': 'cpp',
+  'gpt-5.2-codex': 'cpp',
+  'gpt-5.2': 'cpp',
+  'gpt-5.1-codex': 'cpp',
+  'gpt-5.1-codex-mini': 'cpp',
+  'gpt-5.1-codex-max': 'cpp',
+  'qwq-32b-preview': 'cpp',
+  'llama-3.3-70b': 'cpp',
+}
+
+// LLM answers can be cached in LLM_CACHE_DIR, one file per call named by the SHA-256 of the model, the messages and the JSON mode.
+// 'read_write' re-runs a problem without paying again for the same prompts, 'replay' runs it offline from the cache,
+// e.g. to debug the orchestration. Cached answers cost no tokens, so they are not in the usage.
+// The files hold whole statements and answers, so the dir is in the git-ignored .stackfish/ next to the OAuth tokens.
+export const LLM_CACHE: LLMCacheMode = 'off';
+export const LLM_CACHE_DIR = path.join(process.cwd(), '.stackfish', 'llm_cache');
+
+// The agents of all running problems share these caps and the ones of LLM_PROVIDERS.
+// Requests over a cap wait in a queue, work closer to a final answer goes first:
+// full runs, then validation, then recovery, then new solutions, then new hypotheses and tests
+export const MAX_CONCURRENT_REQUESTS = 32;
+// Solution runs on the cloud worker (or this machine with the local backend)
+export const MAX_CONCURRENT_COMPUTE_REQUESTS = 16;
+
 // Some problems accept more than one solution, for example, there can be multiple shortest paths in a graph
 // But how can we verify if our solution is correct on test cases?
 // We use LLM to analyze the problem statement and determine if only one output is possible or multiple.
@@ -77,8 +176,43 @@ export const directSolutionCallsPerModel: Record<Model, number> = {
 export const IS_ONLY_ONE_OUTPUT_VALID_MODEL: Model = 'gpt-5.3-codex';
 
 // In case if multiple outputs are possible, we use LLM to guess if the provided output seems correct
+// A checker.cpp in the problem dir (testlib-style: checker <input> <output> <answer>) replaces both, the LLM is only a fallback
+// Without a checker.cpp, CHECKER_MODEL writes one for problems with multiple valid outputs. It is used once it accepts
+// the sample output and rejects deliberately corrupted ones, otherwise IS_VALID_OUTPUT_MODEL keeps judging
+export const CHECKER_MODEL: Model = 'gpt-5.3-codex';
 export const IS_VALID_OUTPUT_MODEL: Model = 'gpt-5.3-codex';
 
+// The full input is split into single test cases by a program written by SPLIT_INPUT_MODEL.
+// The test cases are then run in FULL_RUN_SHARDS parallel shards, and the smallest of them are used as QA edge cases.
+export const SPLIT_INPUT_MODEL: Model = 'gpt-5.3-codex';
+export const FULL_RUN_SHARDS = 8;
+
+// Before the full run, a solution is timed on PERF_PROBE_INPUTS worst-case inputs at the maximum constraints,
+// written by a generator from PERF_PROBE_MODEL. The slowest run is scaled to the size of full_in.txt,
+// and a solution estimated over the full time limit goes to time limit recovery with the timings.
+export const PERF_PROBE_MODEL: Model = 'gpt-5.3-codex';
+export const PERF_PROBE_INPUTS = 3;
+
+// Before a solution is saved, it is built with every compiler and optimization level of its language's ub_builds
+// (g++ -O0, g++ -O2 and clang++ -O2 where installed) and run on the sample and UB_CHECK_CASES split test cases.
+// Builds printing different outputs point at undefined behavior, the solution goes to runtime error recovery.
+export const UB_CHECK = true;
+export const UB_CHECK_CASES = 20;
+
+// Synthetic tests often break the constraints of the statement, so INPUT_VALIDATOR_MODEL writes a validator program once
+// per problem (it must accept the sample input), and tests it rejects are dropped before they reach the solutions
+export const INPUT_VALIDATOR_MODEL: Model = 'gpt-5.3-codex';
+
+// Between validation and the full run, a solution is compared with a naive brute force on STRESS_TEST_COUNT small random inputs.
+// STRESS_TEST_MODEL writes the brute force and the input generator once per problem, the first mismatch goes to wrong answer recovery.
+// Skipped when more than one output is valid and the problem has no checker.cpp, as the outputs can not be compared directly.
+export const STRESS_TEST_MODEL: Model = 'gpt-5.3-codex';
+export const STRESS_TEST_COUNT = 200;
+
+// A failed preparation (stress tests, synthesized checker, performance probe, input validator, input split) is kept
+// in _state for this long and then retried, it may have failed on a rate limited LLM or an unreachable worker rather than on the problem itself
+export const FAILED_STATE_RETRY_MS = 30 * 60 * 1000;
+
 // After a hypothesis is generated, we use LLM to extract knowledge tags - advanced algorithms and data structures,
 // which are mentioned in the hypothesis
 export const EXTRACT_KNOWLEDGE_TAGS_MODEL: Model = 'gpt-5.3-codex';
@@ -1,12 +1,14 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import ProblemColumn from '@/components/ProblemColumn';
-import { ProblemService } from './services/problemService';
+import ProblemColumn, { UsageStats } from '@/components/ProblemColumn';
+import { ProblemService, type RequestCounts } from './services/problemService';
+import type { RunUsage, TokenUsage } from './types/models';
 
 export default function Home() {
   const [problems, setProblems] = useState<string[]>([]);
-  const [problemRequests, setProblemRequests] = useState<Record<string, { llm: number; compute: number }>>({});
+  const [problemRequests, setProblemRequests] = useState<Record<string, RequestCounts>>({});
+  const [problemUsage, setProblemUsage] = useState<Record<string, RunUsage | null>>({});
   const [authStatus, setAuthStatus] = useState<{ status: string; connected: boolean; error?: string; accountId?: string }>({
     status: 'idle',
     connected: false,
@@ -23,16 +25,25 @@ export default function Home() {
     fetchProblems();
 
     // Set up request counter listener
-    const handleRequestCount = (problem: string, llm_count: number, compute_count: number) => {
+    const handleRequestCount = (problem: string, counts: RequestCounts) => {
       setProblemRequests(prev => ({
         ...prev,
-        [problem]: { llm: llm_count, compute: compute_count }
+        [problem]: counts
       }));
     };
     ProblemService.addListener(handleRequestCount);
 
+    const handleUsage = (problem: string, usage: RunUsage | null) => {
+      setProblemUsage(prev => ({
+        ...prev,
+        [problem]: usage
+      }));
+    };
+    ProblemService.addUsageListener(handleUsage);
+
     return () => {
       ProblemService.removeListener(handleRequestCount);
+      ProblemService.removeUsageListener(handleUsage);
     };
   }, []);
 
@@ -87,8 +98,17 @@ export default function Home() {
   };
 
   // Calculate totals
-  const totalLLM = Object.values(problemRequests).reduce((sum, curr) => sum + curr.llm, 0);
-  const totalCompute = Object.values(problemRequests).reduce((sum, curr) => sum + curr.compute, 0);
+  const totalLLM = Object.values(problemRequests).reduce((sum, curr) => sum + curr.llm_running, 0);
+  const queuedLLM = Object.values(problemRequests).reduce((sum, curr) => sum + curr.llm_queued, 0);
+  const totalCompute = Object.values(problemRequests).reduce((sum, curr) => sum + curr.compute_running, 0);
+  const queuedCompute = Object.values(problemRequests).reduce((sum, curr) => sum + curr.compute_queued, 0);
+  const totalUsage = Object.values(problemUsage).reduce<TokenUsage>((sum, curr) => curr ? {
+    calls: sum.calls + curr.total.calls,
+    input_tokens: sum.input_tokens + curr.total.input_tokens,
+    output_tokens: sum.output_tokens + curr.total.output_tokens,
+    reasoning_tokens: sum.reasoning_tokens + curr.total.reasoning_tokens,
+    cost_usd: sum.cost_usd + curr.total.cost_usd,
+  } : sum, { calls: 0, input_tokens: 0, output_tokens: 0, reasoning_tokens: 0, cost_usd: 0 });
 
   return (
     <main className="h-screen flex flex-col">
@@ -123,15 +143,20 @@ export default function Home() {
             <div className="flex items-center gap-2 px-4 py-2 rounded-lg">
               <div className={`w-2 h-2 rounded-full ${totalLLM > 0 ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
               <span className="text-xs font-medium">
-                {totalLLM} Concurrent LLM requests
+                {totalLLM} Concurrent LLM requests{queuedLLM > 0 && `, ${queuedLLM} queued`}
               </span>
             </div>
             <div className="flex items-center gap-2 px-4 py-2 rounded-lg">
               <div className={`w-2 h-2 rounded-full ${totalCompute > 0 ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
               <span className="text-xs font-medium">
-                {totalCompute} Concurrent compute requests
+                {totalCompute} Concurrent compute requests{queuedCompute > 0 && `, ${queuedCompute} queued`}
               </span>
             </div>
+            {totalUsage.calls > 0 && (
+              <div className="px-4 py-2">
+                <UsageStats usage={totalUsage} />
+              </div>
+            )}
           </div>
         </div>
       </div>
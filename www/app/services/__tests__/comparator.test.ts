@@ -0,0 +1,94 @@
+import { compareOutputs } from '../comparator';
+
+describe('compareOutputs', () => {
+  describe('lines', () => {
+    const lines = { mode: 'lines' as const };
+
+    it('should accept identical outputs', () => {
+      expect(compareOutputs('Case #1: 3\nCase #2: 5', 'Case #1: 3\nCase #2: 5', lines)).toBe(true);
+    });
+
+    it('should ignore trailing whitespace and line endings', () => {
+      expect(compareOutputs('Case #1: 3  \r\nCase #2: 5\n\n', 'Case #1: 3\nCase #2: 5', lines)).toBe(true);
+    });
+
+    it('should reject different spacing inside a line', () => {
+      expect(compareOutputs('Case #1:  3', 'Case #1: 3', lines)).toBe(false);
+    });
+  });
+
+  describe('token', () => {
+    const token = { mode: 'token' as const };
+
+    it('should ignore spacing between tokens', () => {
+      expect(compareOutputs('1   2\t3', '1 2 3', token)).toBe(true);
+    });
+
+    it('should compare numbers as text', () => {
+      expect(compareOutputs('0.5', '0.50', token)).toBe(false);
+    });
+
+    it('should reject tokens moved to another line', () => {
+      expect(compareOutputs('1 2\n3', '1\n2 3', token)).toBe(false);
+    });
+  });
+
+  describe('float', () => {
+    it('should be the default, with 1e-6 tolerance', () => {
+      expect(compareOutputs('Case #1: 0.3333333', 'Case #1: 0.33333333')).toBe(true);
+      expect(compareOutputs('Case #1: 0.3333', 'Case #1: 0.33333333')).toBe(false);
+    });
+
+    it('should use the configured epsilon', () => {
+      const loose = { mode: 'float' as const, epsilon: 1e-4 };
+      expect(compareOutputs('1.00005', '1', loose)).toBe(true);
+      expect(compareOutputs('1.0005', '1', loose)).toBe(false);
+    });
+
+    it('should accept relative errors on big numbers', () => {
+      expect(compareOutputs('123456789.5', '123456789.6')).toBe(true);
+    });
+
+    it('should apply the tolerance to integers by default', () => {
+      expect(compareOutputs('1000000000000000001', '1000000000000000000')).toBe(true);
+    });
+
+    it('should compare integers exactly when asked to', () => {
+      const exactIntegers = { mode: 'float' as const, exact_integers: true };
+      expect(compareOutputs('1000000000000000001', '1000000000000000000', exactIntegers)).toBe(false);
+      expect(compareOutputs('0.3333333', '0.33333333', exactIntegers)).toBe(true);
+    });
+
+    it('should not parse tokens that are not numbers', () => {
+      expect(compareOutputs('12abc', '12')).toBe(false);
+    });
+  });
+
+  describe('case_insensitive', () => {
+    const caseInsensitive = { mode: 'case_insensitive' as const };
+
+    it('should ignore the case of letters', () => {
+      expect(compareOutputs('Case #1: yes\nCase #2: No', 'Case #1: YES\nCase #2: NO', caseInsensitive)).toBe(true);
+    });
+
+    it('should reject different words', () => {
+      expect(compareOutputs('Case #1: YES', 'Case #1: NO', caseInsensitive)).toBe(false);
+    });
+  });
+
+  describe('unordered_lines', () => {
+    const unordered = { mode: 'unordered_lines' as const };
+
+    it('should accept the same lines in any order', () => {
+      expect(compareOutputs('1 2\n3  4\n5 6', '5 6\n1 2\n3 4', unordered)).toBe(true);
+    });
+
+    it('should count repeated lines', () => {
+      expect(compareOutputs('1 2\n1 2\n3 4', '1 2\n3 4\n3 4', unordered)).toBe(false);
+    });
+
+    it('should keep the order of tokens within a line', () => {
+      expect(compareOutputs('2 1', '1 2', unordered)).toBe(false);
+    });
+  });
+});
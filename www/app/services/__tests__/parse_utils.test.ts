@@ -28,6 +28,21 @@ describe('parseCode', () => {
     const input = '```\n```';
     expect(parseCode(input)).toBe('');
   });
+
+  it('should prefer the block fenced with the requested language', () => {
+    const input = 'Input:\n```text\n3\n```\nSolution:\n```Python\nprint(3)\n```';
+    expect(parseCode(input, 'python')).toBe('print(3)');
+  });
+
+  it('should accept language aliases', () => {
+    const input = '```rs\nfn main() {}\n```';
+    expect(parseCode(input, 'rust')).toBe('fn main() {}');
+  });
+
+  it('should fall back to the first block when no block matches the language', () => {
+    const input = '```\n#include <stdio.h>\n```';
+    expect(parseCode(input, 'cpp')).toBe('#include <stdio.h>');
+  });
 }); 
 
 describe('parseJson', () => {
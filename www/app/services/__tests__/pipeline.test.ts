@@ -0,0 +1,218 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getMockCalls, setMockScript } from '../mockLLM';
+import { Log, ProblemService } from '../problemService';
+import * as compileErrorRecovery from '../../api/compile_error_recovery/route';
+import * as getAttackVector from '../../api/get_attack_vector/route';
+import * as getSyntheticTests from '../../api/get_synthetic_tests/route';
+import * as isOnlyOneOutputValid from '../../api/is_only_one_output_valid/route';
+import * as outputFormatRecovery from '../../api/output_format_recovery/route';
+import * as perfProbe from '../../api/perf_probe/route';
+import * as runAllTests from '../../api/run_all_tests/route';
+import * as runtimeErrorRecovery from '../../api/runtime_error_recovery/route';
+import * as splitInput from '../../api/split_input/route';
+import * as stressTest from '../../api/stress_test/route';
+import * as synthesizeChecker from '../../api/synthesize_checker/route';
+import * as timeLimitRecovery from '../../api/time_limit_recovery/route';
+import * as usage from '../../api/usage/route';
+import * as validateSolution from '../../api/validate_solution/route';
+import * as writeSolution from '../../api/write_solution/route';
+import * as wrongAnswerRecovery from '../../api/wrong_answer_recovery/route';
+
+// Every stage runs on the mock model, solutions run on this machine (g++ is needed)
+jest.mock('../../config/config', () => {
+  const { join } = jest.requireActual<typeof import('path')>('path');
+  const { tmpdir } = jest.requireActual<typeof import('os')>('os');
+  return {
+    ...jest.requireActual('../../config/config'),
+    EXECUTION_BACKEND: 'local',
+    PROBLEMS_PATH: join(tmpdir(), 'stackfish-pipeline-test', 'PROBLEMS'),
+    SOLUTIONS_PATH: join(tmpdir(), 'stackfish-pipeline-test', 'SOLUTIONS'),
+    LLM_CACHE: 'off',
+    UB_CHECK: false,
+    attackVectorCallsPerModel: { mock: 1 },
+    postAttackVectorSolutionCallsPerModel: { mock: 1 },
+    directSolutionCallsPerModel: {},
+    syntheticTestCallsPerModel: {},
+    postSyntheticTestCallsPerModel: {},
+    solutionLanguagePerModel: { mock: 'cpp' },
+    IS_ONLY_ONE_OUTPUT_VALID_MODEL: 'mock',
+    IS_VALID_OUTPUT_MODEL: 'mock',
+    CHECKER_MODEL: 'mock',
+    SPLIT_INPUT_MODEL: 'mock',
+    PERF_PROBE_MODEL: 'mock',
+    INPUT_VALIDATOR_MODEL: 'mock',
+    STRESS_TEST_MODEL: 'mock',
+    EXTRACT_KNOWLEDGE_TAGS_MODEL: 'mock',
+  };
+});
+
+// p-queue is an ES module jest does not load, and nothing here needs the concurrency caps
+jest.mock('../scheduler', () => ({
+  schedule: <T>(_lane: string, _priority: number, task: () => Promise<T>, onStart?: () => void) => {
+    onStart?.();
+    return task();
+  },
+}));
+
+const ROOT = path.join(os.tmpdir(), 'stackfish-pipeline-test');
+
+type Route = { GET?: (request: Request) => Promise<Response>; POST?: (request: Request) => Promise<Response> };
+const ROUTES: Record<string, Route> = {
+  compile_error_recovery: compileErrorRecovery,
+  get_attack_vector: getAttackVector,
+  get_synthetic_tests: getSyntheticTests,
+  is_only_one_output_valid: isOnlyOneOutputValid,
+  output_format_recovery: outputFormatRecovery,
+  perf_probe: perfProbe,
+  run_all_tests: runAllTests,
+  runtime_error_recovery: runtimeErrorRecovery,
+  split_input: splitInput,
+  stress_test: stressTest,
+  synthesize_checker: synthesizeChecker,
+  time_limit_recovery: timeLimitRecovery,
+  usage,
+  validate_solution: validateSolution,
+  write_solution: writeSolution,
+  wrong_answer_recovery: wrongAnswerRecovery,
+};
+
+// ProblemService calls the routes with fetch('/api/<endpoint>?...'), here they are called directly
+async function routeFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = new URL(String(input), 'http://localhost');
+  const endpoint = url.pathname.replace(/^\/api\//, '');
+  const handler = ROUTES[endpoint]?.[(init?.method ?? 'GET') as 'GET' | 'POST'];
+  if (!handler) {
+    return new Response(`No route for ${init?.method} ${url.pathname}`, { status: 404 });
+  }
+  return handler(new Request(url, init));
+}
+
+const MAX_SOLUTION = `#include <bits/stdc++.h>
+int main() {
+  int t;
+  std::cin >> t;
+  for (int c = 1; c <= t; c++) {
+    int n;
+    std::cin >> n;
+    long long best = LLONG_MIN;
+    for (int i = 0; i < n; i++) {
+      long long x;
+      std::cin >> x;
+      best = std::max(best, x);
+    }
+    std::cout << "Case #" << c << ": " << best << "\\n";
+  }
+}`;
+
+function code(source: string): string {
+  return '```cpp\n' + source + '\n```';
+}
+
+function writeProblem(problem: string): void {
+  const dir = path.join(ROOT, 'PROBLEMS', problem);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'statement.txt'), 'For each of the T test cases, print the maximum of the N given numbers.');
+  fs.writeFileSync(path.join(dir, 'sample_in.txt'), '2\n3\n1 5 2\n1\n7\n');
+  fs.writeFileSync(path.join(dir, 'sample_out.txt'), 'Case #1: 5\nCase #2: 7\n');
+  fs.writeFileSync(path.join(dir, 'full_in.txt'), '3\n2\n4 9\n3\n-1 -5 -2\n1\n100\n');
+  fs.writeFileSync(path.join(dir, 'metadata.json'), JSON.stringify({ time_limit_seconds: 2, full_time_limit_seconds: 20 }));
+}
+
+// Everything but the first solution and the recovery is the same in every scenario. Stress tests, the performance probe
+// and the input splitter get no script, they fail and are skipped.
+function script(firstSolution: string): void {
+  setMockScript([
+    { stage: 'judge', responses: ['SINGLE'] },
+    { stage: 'attack_vector', pattern: /You will be given two things/, responses: ['{"knowledge_ids": []}'] },
+    { stage: 'attack_vector', responses: ['Keep the running maximum of every test case.'] },
+    { stage: 'write_solution', responses: [code(firstSolution)] },
+    { stage: 'recovery', responses: [code(MAX_SOLUTION)] },
+  ]);
+}
+
+// Logs by id, the latest version of each one
+async function solve(problem: string): Promise<Map<number, Log>> {
+  const logs = new Map<number, Log>();
+  const collect = (log: Log) => {
+    logs.set(log.id, log);
+    log.sub_tasks?.forEach(collect);
+  };
+  await ProblemService.startProcess(problem, collect);
+
+  const deadline = Date.now() + 100000;
+  const finished = () => [...logs.values()].some(log => log.message.startsWith('🚀') && log.status !== 'loading');
+  while (!finished() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  return logs;
+}
+
+function messages(logs: Map<number, Log>): string[] {
+  return [...logs.values()].map(log => log.message);
+}
+
+function savedSolutions(problem: string): string[] {
+  const dir = path.join(ROOT, 'SOLUTIONS', problem);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir).map(run => fs.readFileSync(path.join(dir, run, 'SOLUTION.cpp'), 'utf8'));
+}
+
+describe('solving pipeline with the mock model', () => {
+  beforeAll(() => {
+    fs.rmSync(ROOT, { recursive: true, force: true });
+    global.fetch = routeFetch as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should save a correct first solution without recovery', async () => {
+    writeProblem('accepted');
+    script(MAX_SOLUTION);
+    const logs = await solve('accepted');
+
+    expect(messages(logs)).toContain('👌 Validation passed');
+    expect([...logs.values()].find(log => log.message.startsWith('🎯'))?.live_output).toBe('Keep the running maximum of every test case.');
+    expect(getMockCalls().filter(call => call.stage === 'recovery')).toHaveLength(0);
+    expect(savedSolutions('accepted')).toEqual([MAX_SOLUTION]);
+  }, 120000);
+
+  it('should recover from a wrong answer', async () => {
+    writeProblem('wrong_answer');
+    script(MAX_SOLUTION.replace('std::max', 'std::min').replace('LLONG_MIN', 'LLONG_MAX'));
+    const logs = await solve('wrong_answer');
+
+    expect(messages(logs)).toContain('🥅 Wrong answer: recovering...');
+    expect([...logs.values()].some(log => log.verdict === 'WA')).toBe(true);
+    expect(getMockCalls().filter(call => call.stage === 'recovery')).toHaveLength(1);
+    expect(savedSolutions('wrong_answer')).toEqual([MAX_SOLUTION]);
+  }, 120000);
+
+  it('should recover from a runtime error', async () => {
+    writeProblem('runtime_error');
+    script(MAX_SOLUTION.replace('int t;', 'int t;\n  std::abort();'));
+    const logs = await solve('runtime_error');
+
+    expect(messages(logs)).toContain('⚠️ Runtime Error: recovering...');
+    expect(getMockCalls().filter(call => call.stage === 'recovery')).toHaveLength(1);
+    expect(savedSolutions('runtime_error')).toEqual([MAX_SOLUTION]);
+  }, 120000);
+
+  it('should recover from a time limit', async () => {
+    writeProblem('time_limit');
+    script(MAX_SOLUTION.replace('int t;', 'int t;\n  for (volatile long long spin = 0; ; spin++) {}'));
+    const logs = await solve('time_limit');
+
+    expect(messages(logs)).toContain('⏱️ Time limit: recovering...');
+    expect([...logs.values()].some(log => log.verdict === 'TLE')).toBe(true);
+    expect(getMockCalls().filter(call => call.stage === 'recovery')).toHaveLength(1);
+    expect(savedSolutions('time_limit')).toEqual([MAX_SOLUTION]);
+  }, 120000);
+});
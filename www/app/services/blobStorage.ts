@@ -0,0 +1,119 @@
+import fs from 'fs';
+import { copyFile, mkdir, readFile, rename, stat } from 'fs/promises';
+import path from 'path';
+import { Storage } from '@google-cloud/storage';
+import { GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { BLOB_BUCKET, BLOB_STORAGE, BLOB_STORAGE_DIR, GCS_PROJECT_ID, S3_ENDPOINT, S3_REGION } from '../config/config';
+import { BlobStorage, BlobStorageName } from '../types/storage';
+import { hashFile } from './fileHash';
+
+// Splits scheme://bucket/key into the bucket and the key
+function parseUrl(url: string): { bucket: string; key: string } {
+  const [, bucketWithPath] = url.split('://');
+  const [bucket, ...keyParts] = bucketWithPath.split('/');
+  return { bucket, key: keyParts.join('/') };
+}
+
+function gcsStorage(): BlobStorage {
+  const storage = new Storage({ projectId: GCS_PROJECT_ID });
+  return {
+    async exists(key) {
+      const [exists] = await storage.bucket(BLOB_BUCKET).file(key).exists();
+      return exists;
+    },
+    async uploadFile(key, localPath) {
+      await storage.bucket(BLOB_BUCKET).upload(localPath, { destination: key });
+    },
+    async download(url) {
+      const { bucket, key } = parseUrl(url);
+      const [contents] = await storage.bucket(bucket).file(key).download();
+      return contents;
+    },
+    url: key => `gs://${BLOB_BUCKET}/${key}`,
+  };
+}
+
+// Credentials come from the usual AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY env vars.
+// With S3_ENDPOINT set it works with any S3-compatible storage (MinIO, R2, ...).
+function s3Storage(): BlobStorage {
+  const client = new S3Client({ region: S3_REGION, endpoint: S3_ENDPOINT, forcePathStyle: !!S3_ENDPOINT });
+  return {
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({ Bucket: BLOB_BUCKET, Key: key }));
+        return true;
+      } catch (error) {
+        if (error instanceof Error && error.name === 'NotFound') {
+          return false;
+        }
+        throw error;
+      }
+    },
+    async uploadFile(key, localPath) {
+      const { size } = await stat(localPath);
+      await client.send(new PutObjectCommand({
+        Bucket: BLOB_BUCKET,
+        Key: key,
+        Body: fs.createReadStream(localPath),
+        ContentLength: size,
+      }));
+    },
+    async download(url) {
+      const { bucket, key } = parseUrl(url);
+      const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return Buffer.from(await response.Body!.transformToByteArray());
+    },
+    url: key => `s3://${BLOB_BUCKET}/${key}`,
+  };
+}
+
+// A dir shared with the worker, e.g. when both run on the same machine or mount the same volume
+function fsStorage(): BlobStorage {
+  const pathOf = (key: string) => path.join(BLOB_STORAGE_DIR, key);
+  return {
+    async exists(key) {
+      return fs.existsSync(pathOf(key));
+    },
+    async uploadFile(key, localPath) {
+      // Copy and rename, so a concurrent reader never sees a half-written object
+      await mkdir(path.dirname(pathOf(key)), { recursive: true });
+      const tmpPath = `${pathOf(key)}.${process.pid}.tmp`;
+      await copyFile(localPath, tmpPath);
+      await rename(tmpPath, pathOf(key));
+    },
+    async download(url) {
+      return readFile(new URL(url));
+    },
+    url: key => `file://${pathOf(key)}`,
+  };
+}
+
+const drivers: Record<BlobStorageName, () => BlobStorage> = {
+  gcs: gcsStorage,
+  s3: s3Storage,
+  fs: fsStorage,
+};
+
+let storage: BlobStorage | undefined;
+
+export function getBlobStorage(): BlobStorage {
+  if (!storage) {
+    storage = drivers[BLOB_STORAGE]();
+  }
+  return storage;
+}
+
+// Stores a local file under the SHA-256 of its content and returns its url.
+// An unchanged file is uploaded once, a modified one gets a new object, so a stale copy is never served.
+export async function uploadContentAddressed(localPath: string, prefix: string): Promise<string> {
+  const storage = getBlobStorage();
+  const key = `${prefix}/${await hashFile(localPath)}`;
+  if (!(await storage.exists(key))) {
+    await storage.uploadFile(key, localPath);
+  }
+  return storage.url(key);
+}
+
+export async function downloadBlob(url: string): Promise<string> {
+  return (await getBlobStorage().download(url)).toString();
+}
@@ -0,0 +1,213 @@
+import fs from 'fs';
+import path from 'path';
+import { CHECKER_MODEL, FAILED_STATE_RETRY_MS, PROBLEMS_PATH } from '../config/config';
+import { CheckerState } from '../types/problem';
+import { executeSolutionBatch } from './executor';
+import llm from './llm';
+import { parseCode } from './parse_utils';
+import { getExecutionOptions, readJudgeProgram } from './problemMetadata';
+import * as prompts from './prompts';
+import * as promptLogger from './promptLogger';
+
+// testlib exit codes: 0 - OK, 1 - wrong answer, 2 - presentation error, 3 - the checker itself failed
+const REJECTED_EXIT_CODES = [1, 2];
+const MAX_CHECKER_ATTEMPTS = 2;
+
+export type CheckerCase = {
+  input: string;
+  // What the solution printed
+  output: string;
+  // The expected output of the test
+  answer: string;
+};
+
+export type CheckerVerdict = {
+  is_valid: boolean;
+  // The checker's comment, e.g. "wrong answer 3rd numbers differ"
+  message: string;
+};
+
+// The executors only feed a program its stdin, while testlib checkers open the files given in argv:
+// `checker <input> <output> <answer>`. The checker's main is renamed, and this harness unpacks
+// "<input bytes> <output bytes> <answer bytes>\n" followed by the three files from stdin and calls it.
+const HARNESS_PREFIX = `#include <cstdio>
+#include <cstdlib>
+#include <string>
+#include <unistd.h>
+#define main stackfish_checker_main
+`;
+
+const HARNESS_SUFFIX = `
+#undef main
+static char stackfish_dir[] = "/tmp/checkerXXXXXX";
+static std::string stackfish_files[3];
+
+static void stackfish_cleanup() {
+  for (const std::string& file : stackfish_files) unlink(file.c_str());
+  rmdir(stackfish_dir);
+}
+
+int main() {
+  size_t sizes[3];
+  if (scanf("%zu %zu %zu", &sizes[0], &sizes[1], &sizes[2]) != 3 || getchar() != '\\n' || !mkdtemp(stackfish_dir)) return 3;
+  atexit(stackfish_cleanup);
+  const char* names[3] = {"input.txt", "output.txt", "answer.txt"};
+  for (int i = 0; i < 3; i++) {
+    std::string content(sizes[i], '\\0');
+    if (fread(&content[0], 1, sizes[i], stdin) != sizes[i]) return 3;
+    stackfish_files[i] = std::string(stackfish_dir) + "/" + names[i];
+    FILE* file = fopen(stackfish_files[i].c_str(), "wb");
+    if (!file) return 3;
+    fwrite(content.data(), 1, content.size(), file);
+    fclose(file);
+  }
+  char* argv[] = {(char*)"checker", (char*)stackfish_files[0].c_str(), (char*)stackfish_files[1].c_str(), (char*)stackfish_files[2].c_str(), nullptr};
+  return stackfish_checker_main(4, argv);
+}
+`;
+
+function checkerStatePath(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'checker.json');
+}
+
+// A failed state is dropped once it is old enough to synthesize the checker again
+function readCheckerState(problem: string): CheckerState | undefined {
+  try {
+    const state: CheckerState = JSON.parse(fs.readFileSync(checkerStatePath(problem), 'utf8'));
+    return state.status === 'failed' && Date.now() - (state.failed_at ?? 0) >= FAILED_STATE_RETRY_MS ? undefined : state;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeCheckerState(problem: string, state: CheckerState): void {
+  fs.mkdirSync(path.dirname(checkerStatePath(problem)), { recursive: true });
+  fs.writeFileSync(checkerStatePath(problem), JSON.stringify(state, null, 2));
+}
+
+export function hasHandWrittenChecker(problem: string): boolean {
+  return fs.existsSync(path.join(PROBLEMS_PATH, problem, 'checker.cpp'));
+}
+
+// checker.cpp from the problem dir, or the validated synthesized checker, undefined when there is neither
+function getCheckerSource(problem: string): string | undefined {
+  if (!hasHandWrittenChecker(problem)) {
+    const state = readCheckerState(problem);
+    return state?.status === 'ready' ? state.source : undefined;
+  }
+  return readJudgeProgram(problem, 'checker.cpp');
+}
+
+export function hasChecker(problem: string): boolean {
+  return getCheckerSource(problem) !== undefined;
+}
+
+function pack(testCase: CheckerCase): string {
+  const files = [testCase.input, testCase.output, testCase.answer].map(file => file.trim() + '\n');
+  return `${files.map(file => Buffer.byteLength(file)).join(' ')}\n${files.join('')}`;
+}
+
+// Undefined when the checker does not compile, see checkOutputs
+async function runChecker(problem: string, checker: string, cases: CheckerCase[]): Promise<(CheckerVerdict | undefined)[] | undefined> {
+  const source = HARNESS_PREFIX + checker + HARNESS_SUFFIX;
+  const results = await executeSolutionBatch(source, 'cpp', getExecutionOptions(problem), cases.map(pack));
+
+  if (results[0]?.verdict === 'CE') {
+    console.error(`Checker of ${problem} does not compile:`, results[0].error);
+    return undefined;
+  }
+  return results.map(result => {
+    if (!result.error) {
+      return { is_valid: true, message: 'ok' };
+    }
+    const exitCode = result.usage?.exit_code;
+    if (result.verdict === 'RE' && exitCode != null && REJECTED_EXIT_CODES.includes(exitCode)) {
+      // The error is "Process exited with code N" followed by the checker's stderr
+      return { is_valid: false, message: result.error.split('\n').slice(1).join('\n').trim() };
+    }
+    console.error(`Checker of ${problem} failed:`, result.error);
+    return undefined;
+  });
+}
+
+// Judges every case with the problem's checker, compiled once.
+// Returns undefined when there is no checker or it does not compile; a case gets undefined when the checker
+// failed on it (crash, timeout, testlib FAIL), so the caller falls back to its own comparison.
+export async function checkOutputs(problem: string, cases: CheckerCase[]): Promise<(CheckerVerdict | undefined)[] | undefined> {
+  const checker = getCheckerSource(problem);
+  if (!checker || cases.length === 0) {
+    return undefined;
+  }
+  return runChecker(problem, checker, cases);
+}
+
+// Outputs no correct checker may accept: an empty one, one missing its last line,
+// and ones where the last number (not a case number) is changed or replaced with garbage
+export function corruptOutputs(output: string): string[] {
+  const trimmed = output.trim();
+  const lines = trimmed.split('\n');
+  const corrupted = [''];
+  if (lines.length > 1) {
+    corrupted.push(lines.slice(0, -1).join('\n'));
+  }
+  const numbers = [...trimmed.matchAll(/(?<![#\w.])-?\d+(?:\.\d+)?(?![\w.:])/g)];
+  const last = numbers[numbers.length - 1];
+  if (last?.index !== undefined) {
+    const replaceLast = (value: string) => trimmed.substring(0, last.index) + value + trimmed.substring(last.index! + last[0].length);
+    const changed = last[0].includes('.') ? String(parseFloat(last[0]) + 1) : String(BigInt(last[0]) + BigInt(1));
+    corrupted.push(replaceLast(changed), replaceLast('x'));
+  }
+  return corrupted;
+}
+
+// Asks the LLM for a checker of a problem with multiple valid outputs. It is kept only if it accepts the sample output
+// and rejects every corrupted version of it. The result is cached in _state/checker.json.
+export async function synthesizeChecker(problem: string): Promise<CheckerState> {
+  const cached = readCheckerState(problem);
+  if (cached) {
+    return cached;
+  }
+
+  const problemDir = path.join(PROBLEMS_PATH, problem);
+  const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
+  const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
+  const sampleOutput = fs.readFileSync(path.join(problemDir, 'sample_out.txt'), 'utf8').trim();
+  const prompt = prompts.checker_prompt(statement, sampleInput, sampleOutput);
+  const corruptions = corruptOutputs(sampleOutput);
+
+  let error = '';
+  for (let attempt = 0; attempt < MAX_CHECKER_ATTEMPTS; attempt++) {
+    try {
+      promptLogger.log(problem, 'Checker Prompt', prompt);
+      const source = parseCode(await llm(prompt, CHECKER_MODEL, { problem, stage: 'judge' }), 'cpp');
+
+      const verdicts = await runChecker(problem, source, [sampleOutput, ...corruptions].map(output => ({
+        input: sampleInput,
+        output,
+        answer: sampleOutput,
+      })));
+      if (!verdicts) {
+        throw new Error('Checker does not compile');
+      }
+      const [sampleVerdict, ...corruptionVerdicts] = verdicts;
+      if (!sampleVerdict?.is_valid) {
+        throw new Error(`Checker rejects the sample output: ${sampleVerdict?.message ?? 'checker failed'}`);
+      }
+      const accepted = corruptionVerdicts.findIndex(verdict => verdict?.is_valid !== false);
+      if (accepted !== -1) {
+        throw new Error(`Checker does not reject the corrupted output:\n${corruptions[accepted]}`);
+      }
+
+      const state: CheckerState = { status: 'ready', source, corruptions_rejected: corruptions.length };
+      writeCheckerState(problem, state);
+      return state;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      console.error(`Checker attempt ${attempt + 1} failed for ${problem}:`, error);
+    }
+  }
+
+  const state: CheckerState = { status: 'failed', error, failed_at: Date.now() };
+  writeCheckerState(problem, state);
+  return state;
+}
@@ -0,0 +1,113 @@
+import axios from 'axios';
+import { ExecutionBackend, ExecutionOptions, ExecutionResult, InteractorVerdict, ResourceUsage } from '../types/execution';
+import { Language } from '../types/language';
+import { downloadBlob, uploadContentAddressed } from './blobStorage';
+import { postToPool } from './workerPool';
+
+const MAX_RETRIES = 2;
+const RETRY_DELAY = 5000; // 5 seconds
+
+// What cloud-run-worker/server.js answers: a failed build or run has `error`, /compute puts the output of a run
+// into the blob storage (`outputUrl`), /compute_batch answers with a result per input, each with its output inline
+type WorkerResponse = {
+  output?: string;
+  outputUrl?: string;
+  error?: string;
+  verdict?: ExecutionResult['verdict'];
+  usage?: ResourceUsage;
+  interactor_verdict?: InteractorVerdict;
+  results?: WorkerResponse[];
+};
+
+// Helper function to add delay
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Posts to the worker pool, retrying when every worker is down, overloaded or out of instances
+async function postToWorker(endpoint: string, payload: unknown): Promise<WorkerResponse> {
+  let attempts = 0;
+  while (attempts < MAX_RETRIES) {
+    try {
+      return await postToPool(endpoint, payload) as WorkerResponse;
+    } catch (error) {
+      if (axios.isAxiosError(error) && (!error.response || error.response.status >= 500 || error.response.status === 429)) {
+        attempts++;
+        if (attempts <= MAX_RETRIES) {
+          console.log(`Attempt ${attempts} failed on every worker (${error.response?.status ?? error.code}). Retrying...`);
+          await delay(RETRY_DELAY * attempts);
+          continue;
+        }
+      }
+      throw error; // Rethrow if it's not a retriable error or we're out of retries
+    }
+  }
+
+  throw new Error('Max retries exceeded');
+}
+
+function toExecutionResult(responseData: WorkerResponse): ExecutionResult {
+  if (responseData.error) {
+    return {
+      output: '',
+      error: responseData.error,
+      verdict: responseData.verdict,
+      usage: responseData.usage,
+    };
+  }
+  return {
+    output: responseData.output ?? '',
+    usage: responseData.usage,
+    interactor_verdict: responseData.interactor_verdict,
+  };
+}
+
+async function executeInCloud(sourceCode: string, language: Language, options: ExecutionOptions, inputString?: string, inputPath?: string): Promise<ExecutionResult> {
+  try {
+    let inputUrl: string | undefined;
+    
+    if (inputPath) {
+      inputUrl = await uploadContentAddressed(inputPath, 'inputs');
+    }
+
+    const payload: Record<string, unknown> = { sourceCode, language, ...options };
+
+    if (inputString) {
+      payload.input = inputString;
+    } else if (inputUrl) {
+      payload.inputUrl = inputUrl;
+    }
+
+    const responseData = await postToWorker('compute', payload);
+
+    if (!responseData.error && responseData.outputUrl) {
+      const output = await downloadBlob(responseData.outputUrl);
+      return { output, usage: responseData.usage, interactor_verdict: responseData.interactor_verdict };
+    }
+    return toExecutionResult(responseData);
+
+  } catch (error) {
+    return {
+      output: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  }
+}
+
+// Inputs and outputs of a batch are small (samples, synthetic tests), so they are sent inline
+async function executeBatchInCloud(sourceCode: string, language: Language, options: ExecutionOptions, inputs: string[]): Promise<ExecutionResult[]> {
+  try {
+    const responseData = await postToWorker('compute_batch', { sourceCode, language, inputs, ...options });
+    if (responseData.error) {
+      return inputs.map(() => toExecutionResult(responseData));
+    }
+    return responseData.results?.map(toExecutionResult) ?? inputs.map(() => ({ output: '', error: 'The worker answered without results' }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    return inputs.map(() => ({ output: '', error: message }));
+  }
+}
+
+// Sends the source to the pool of Cloud Run workers, large inputs and outputs go through the blob storage
+export const cloudBackend: ExecutionBackend = {
+  execute: executeInCloud,
+  executeBatch: executeBatchInCloud,
+};
@@ -0,0 +1,82 @@
+import { ComparatorSettings } from '../types/problem';
+
+const DEFAULT_EPSILON = 1e-6;
+
+export const DEFAULT_COMPARATOR: ComparatorSettings = { mode: 'float', epsilon: DEFAULT_EPSILON };
+
+const INTEGER = /^[-+]?\d+$/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+function compareNumbers(a: number, b: number, epsilon: number): boolean {
+  const absoluteError = Math.abs(a - b);
+  const maxAbs = Math.max(Math.abs(a), Math.abs(b));
+  let relativeError;
+  if (maxAbs > 0) {
+    relativeError = absoluteError / maxAbs;
+  } else {
+    relativeError = 0;
+  }
+  return absoluteError <= epsilon || relativeError <= epsilon;
+}
+
+function compareFloatTokens(token1: string, token2: string, epsilon: number, exactIntegers: boolean): boolean {
+  if (token1 === token2) {
+    return true;
+  }
+  if (!NUMBER.test(token1) || !NUMBER.test(token2) || (exactIntegers && INTEGER.test(token1) && INTEGER.test(token2))) {
+    return false;
+  }
+  return compareNumbers(Number(token1), Number(token2), epsilon);
+}
+
+function splitLines(output: string): string[] {
+  return output.replace(/\r\n/g, '\n').trim().split('\n');
+}
+
+function tokenize(line: string): string[] {
+  return line.trim().split(/\s+/).filter(token => token.length > 0);
+}
+
+function compareTokenLines(lines1: string[], lines2: string[], compareTokens: (token1: string, token2: string) => boolean): boolean {
+  if (lines1.length !== lines2.length) {
+    return false;
+  }
+  for (let i = 0; i < lines1.length; i++) {
+    const tokens1 = tokenize(lines1[i]);
+    const tokens2 = tokenize(lines2[i]);
+    if (tokens1.length !== tokens2.length) {
+      return false;
+    }
+    for (let j = 0; j < tokens1.length; j++) {
+      if (!compareTokens(tokens1[j], tokens2[j])) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Compares two outputs the way the problem's metadata.json says, see ComparatorMode.
+// Leading and trailing whitespace of the whole output never matters.
+export function compareOutputs(output1: string, output2: string, settings: ComparatorSettings = DEFAULT_COMPARATOR): boolean {
+  const lines1 = splitLines(output1);
+  const lines2 = splitLines(output2);
+  switch (settings.mode) {
+    case 'lines':
+      return lines1.length === lines2.length && lines1.every((line, i) => line.trimEnd() === lines2[i].trimEnd());
+    case 'token':
+      return compareTokenLines(lines1, lines2, (token1, token2) => token1 === token2);
+    case 'case_insensitive':
+      return compareTokenLines(lines1, lines2, (token1, token2) => token1.toLowerCase() === token2.toLowerCase());
+    case 'unordered_lines': {
+      const normalize = (lines: string[]) => lines.map(line => tokenize(line).join(' ')).sort();
+      return compareTokenLines(normalize(lines1), normalize(lines2), (token1, token2) => token1 === token2);
+    }
+    case 'float':
+    default: {
+      const epsilon = settings.epsilon ?? DEFAULT_EPSILON;
+      const exactIntegers = settings.exact_integers ?? false;
+      return compareTokenLines(lines1, lines2, (token1, token2) => compareFloatTokens(token1, token2, epsilon, exactIntegers));
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { PROBLEMS_PATH } from '../config/config';
+import { SyntheticTest, TestStatus } from '../types/tests';
+import { checkOutputs } from './checker';
+import { compareOutputs } from './comparator';
+import { executeSolutionBatch } from './executor';
+import { getProblemMetadata, getSolutionOptions, isOnlyOneOutputValid } from './problemMetadata';
+import { getBruteForce } from './stress';
+
+// Without a brute force, an expected output is decided by at least this many agreeing (or disagreeing) votes
+const MIN_VOTES = 2;
+
+// Everything known about one synthetic test input
+type PooledTest = {
+  // Outputs claimed by every generation that produced this input
+  claimed_outputs: string[];
+  // null when the brute force failed on the input, e.g. it is too big for it
+  brute_force_output?: string | null;
+  // Outputs of the solutions passing the sample, keyed by solutionHash
+  solution_outputs: Record<string, string>;
+};
+
+// Stored in _state/synthetic_tests.json, keyed by the trimmed input
+type TestPool = Record<string, PooledTest>;
+
+function poolPath(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'synthetic_tests.json');
+}
+
+function readPool(problem: string): TestPool {
+  try {
+    return JSON.parse(fs.readFileSync(poolPath(problem), 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+// Reads, changes and writes the pool without awaiting in between, so concurrent requests don't lose each other's votes
+function updatePool(problem: string, update: (pool: TestPool) => void): void {
+  const pool = readPool(problem);
+  update(pool);
+  fs.mkdirSync(path.dirname(poolPath(problem)), { recursive: true });
+  fs.writeFileSync(poolPath(problem), JSON.stringify(pool, null, 2));
+}
+
+function entry(pool: TestPool, input: string): PooledTest {
+  const key = input.trim();
+  if (!pool[key]) {
+    pool[key] = { claimed_outputs: [], solution_outputs: {} };
+  }
+  return pool[key];
+}
+
+// Adds the outputs a generation claims for its tests, several generations producing the same input vote on its output
+export function registerClaims(problem: string, tests: SyntheticTest[]): void {
+  updatePool(problem, pool => {
+    tests.forEach(test => entry(pool, test.input).claimed_outputs.push(test.output.trim()));
+  });
+}
+
+// Records what a solution passing the sample printed on the tests, `undefined` (a failed run) is not a vote
+export function recordSolutionOutputs(problem: string, hash: string, tests: SyntheticTest[], outputs: (string | undefined)[]): void {
+  updatePool(problem, pool => {
+    tests.forEach((test, i) => {
+      const output = outputs[i];
+      if (output !== undefined) {
+        entry(pool, test.input).solution_outputs[hash] = output.trim();
+      }
+    });
+  });
+}
+
+// Runs the brute force of the stress stage, once it exists, on the inputs it has not seen yet
+async function addBruteForceOutputs(problem: string, tests: SyntheticTest[]): Promise<void> {
+  const bruteForce = getBruteForce(problem);
+  if (!bruteForce) {
+    return;
+  }
+  const pool = readPool(problem);
+  const missing = [...new Set(tests.map(test => test.input.trim()))].filter(input => pool[input]?.brute_force_output === undefined);
+  if (missing.length === 0) {
+    return;
+  }
+  const results = await executeSolutionBatch(bruteForce, 'cpp', getSolutionOptions(problem), missing);
+  updatePool(problem, pool => {
+    missing.forEach((input, i) => {
+      entry(pool, input).brute_force_output = results[i].error ? null : results[i].output.trim();
+    });
+  });
+}
+
+// Problems with several valid outputs: the checker tells if the expected output is as good as the brute force one
+async function scoreWithChecker(problem: string, tests: SyntheticTest[], pool: TestPool): Promise<TestStatus[]> {
+  const references = tests.map(test => pool[test.input.trim()]?.brute_force_output);
+  const referenced = tests.map((_, i) => i).filter(i => typeof references[i] === 'string');
+  const verdicts = await checkOutputs(problem, referenced.map(i => ({
+    input: tests[i].input,
+    output: tests[i].output,
+    answer: references[i]!,
+  })));
+  return tests.map((_, i) => {
+    const verdict = verdicts?.[referenced.indexOf(i)];
+    if (!verdict) {
+      return 'unverified';
+    }
+    return verdict.is_valid ? 'confirmed' : 'disputed';
+  });
+}
+
+// Tags the expected output of every test. The brute force is trusted when it handles the input,
+// otherwise the other generations and solutions vote. The votes of `excludedSolution` (the one being
+// validated) don't count, so a wrong solution can't dispute the test that catches it.
+export async function scoreTests(problem: string, tests: SyntheticTest[], excludedSolution?: string): Promise<TestStatus[]> {
+  await addBruteForceOutputs(problem, tests);
+  const pool = readPool(problem);
+  if (!isOnlyOneOutputValid(problem)) {
+    return scoreWithChecker(problem, tests, pool);
+  }
+  const comparator = getProblemMetadata(problem).comparator;
+
+  return tests.map(test => {
+    const pooled = pool[test.input.trim()];
+    const output = test.output.trim();
+    if (!pooled) {
+      return 'unverified';
+    }
+    if (typeof pooled.brute_force_output === 'string') {
+      return compareOutputs(pooled.brute_force_output, output, comparator) ? 'confirmed' : 'disputed';
+    }
+
+    // The test's own claim is not a vote
+    const ownClaim = pooled.claimed_outputs.findIndex(claim => compareOutputs(claim, output, comparator));
+    const votes = [
+      ...pooled.claimed_outputs.filter((_, i) => i !== ownClaim),
+      ...Object.entries(pooled.solution_outputs).filter(([hash]) => hash !== excludedSolution).map(([, solutionOutput]) => solutionOutput),
+    ];
+    const agreeing = votes.filter(vote => compareOutputs(vote, output, comparator)).length;
+    const disagreeing = votes.length - agreeing;
+    if (agreeing >= MIN_VOTES && agreeing > disagreeing) {
+      return 'confirmed';
+    }
+    if (disagreeing >= MIN_VOTES && disagreeing > agreeing) {
+      return 'disputed';
+    }
+    return 'unverified';
+  });
+}
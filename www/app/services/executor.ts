@@ -0,0 +1,21 @@
+import { EXECUTION_BACKEND } from '../config/config';
+import { ExecutionBackend, ExecutionBackendName, ExecutionOptions, ExecutionResult } from '../types/execution';
+import { Language } from '../types/language';
+import { cloudBackend } from './cloudExecutor';
+import { localBackend } from './localExecutor';
+
+const backends: Record<ExecutionBackendName, ExecutionBackend> = {
+  cloud: cloudBackend,
+  local: localBackend,
+};
+
+export async function executeSolution(sourceCode: string, language: Language, options: ExecutionOptions, inputString?: string, inputPath?: string): Promise<ExecutionResult> {
+  return backends[EXECUTION_BACKEND].execute(sourceCode, language, options, inputString, inputPath);
+}
+
+export async function executeSolutionBatch(sourceCode: string, language: Language, options: ExecutionOptions, inputs: string[]): Promise<ExecutionResult[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+  return backends[EXECUTION_BACKEND].executeBatch(sourceCode, language, options, inputs);
+}
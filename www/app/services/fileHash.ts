@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { stat } from 'fs/promises';
+
+// Hashes of local files, valid while the file keeps its size and modification time
+const fileHashes = new Map<string, { size: number; mtimeMs: number; sha256: string }>();
+
+export async function hashFile(filePath: string): Promise<string> {
+  const { size, mtimeMs } = await stat(filePath);
+  const cached = fileHashes.get(filePath);
+  if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+    return cached.sha256;
+  }
+
+  const sha256 = await new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+  fileHashes.set(filePath, { size, mtimeMs, sha256 });
+  return sha256;
+}
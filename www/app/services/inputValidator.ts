@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { FAILED_STATE_RETRY_MS, INPUT_VALIDATOR_MODEL, PROBLEMS_PATH } from '../config/config';
+import { InputValidatorState } from '../types/problem';
+import { executeSolutionBatch } from './executor';
+import llm from './llm';
+import { parseCode } from './parse_utils';
+import { getExecutionOptions } from './problemMetadata';
+import * as prompts from './prompts';
+import * as promptLogger from './promptLogger';
+
+const MAX_VALIDATOR_ATTEMPTS = 2;
+
+// Synthetic tests of several models arrive at about the same time, they share one validator
+const preparations = new Map<string, Promise<InputValidatorState>>();
+
+function validatorStatePath(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'input_validator.json');
+}
+
+function readValidatorState(problem: string): InputValidatorState | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(validatorStatePath(problem), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function writeValidatorState(problem: string, state: InputValidatorState): void {
+  fs.mkdirSync(path.dirname(validatorStatePath(problem)), { recursive: true });
+  fs.writeFileSync(validatorStatePath(problem), JSON.stringify(state, null, 2));
+}
+
+// Reason of the rejection for every input, undefined for an accepted one. A validator that crashes or times out
+// proves nothing about the input, so only an exit with a non-zero code rejects it.
+async function runValidator(problem: string, source: string, inputs: string[]): Promise<(string | undefined)[]> {
+  const results = await executeSolutionBatch(source, 'cpp', getExecutionOptions(problem), inputs);
+  if (results[0]?.verdict === 'CE') {
+    throw new Error(`Input validator does not compile: ${results[0].error}`);
+  }
+  return results.map(result => {
+    if (result.verdict !== 'RE' || !result.usage?.exit_code) {
+      return undefined;
+    }
+    // The error is "Process exited with code N" followed by the validator's stderr
+    return result.error?.split('\n').slice(1).join('\n').trim() || 'rejected by the input validator';
+  });
+}
+
+// Asks the LLM for a validator, which must accept the sample input and reject an empty one
+async function generateInputValidator(problem: string): Promise<InputValidatorState> {
+  const problemDir = path.join(PROBLEMS_PATH, problem);
+  const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
+  const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
+  const prompt = prompts.input_validator_prompt(statement, sampleInput);
+
+  let error = '';
+  for (let attempt = 0; attempt < MAX_VALIDATOR_ATTEMPTS; attempt++) {
+    try {
+      promptLogger.log(problem, 'Input Validator Prompt', prompt);
+      const source = parseCode(await llm(prompt, INPUT_VALIDATOR_MODEL, { problem, stage: 'test_tools' }), 'cpp');
+
+      const [sampleRejection, emptyRejection] = await runValidator(problem, source, [sampleInput, '']);
+      if (sampleRejection !== undefined) {
+        throw new Error(`Input validator rejects the sample input: ${sampleRejection}`);
+      }
+      if (emptyRejection === undefined) {
+        throw new Error('Input validator accepts an empty input');
+      }
+
+      const state: InputValidatorState = { status: 'ready', source };
+      writeValidatorState(problem, state);
+      return state;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      console.error(`Input validator attempt ${attempt + 1} failed for ${problem}:`, error);
+    }
+  }
+
+  const state: InputValidatorState = { status: 'failed', error, failed_at: Date.now() };
+  writeValidatorState(problem, state);
+  return state;
+}
+
+// A failed generation is tried again once it is old enough
+async function getInputValidator(problem: string): Promise<InputValidatorState> {
+  const cached = readValidatorState(problem);
+  if (cached && !(cached.status === 'failed' && Date.now() - (cached.failed_at ?? 0) >= FAILED_STATE_RETRY_MS)) {
+    return cached;
+  }
+  let preparation = preparations.get(problem);
+  if (!preparation) {
+    preparation = generateInputValidator(problem).finally(() => preparations.delete(problem));
+    preparations.set(problem, preparation);
+  }
+  return preparation;
+}
+
+// Why each input breaks the statement, undefined for a valid one.
+// Without a working validator every input is taken as valid.
+export async function validateInputs(problem: string, inputs: string[]): Promise<(string | undefined)[]> {
+  const validator = await getInputValidator(problem);
+  if (validator.status !== 'ready' || !validator.source || inputs.length === 0) {
+    return inputs.map(() => undefined);
+  }
+  try {
+    return await runValidator(problem, validator.source, inputs);
+  } catch (error) {
+    console.error(`Input validation failed for ${problem}:`, error);
+    return inputs.map(() => undefined);
+  }
+}
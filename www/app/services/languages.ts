@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import { TOOLCHAINS } from '../../../cloud-run-worker/sandbox';
+import { Language } from '../types/language';
+
+export type LanguageSpec = {
+  // Extension of the saved solution file, e.g. SOLUTION.cpp
+  extension: string;
+  // Tags the model may put after ``` when fencing the code
+  fence_aliases: string[];
+  // Name of the source file, Java requires it to match the public class
+  source_file: string;
+  // Command producing the runnable artifacts in `dir` from the source file, for interpreted languages a syntax check.
+  // `flags` are extra compiler flags, e.g. optimization level, `compiler` replaces the default one
+  compile: (dir: string, flags: string[], compiler?: string) => string[];
+  run: (dir: string, memory_limit_mb: number) => string[];
+  // The JVM reserves huge virtual memory upfront, so its heap is limited with -Xmx instead of the address space
+  limit_address_space: boolean;
+  // Debug build used to diagnose runtime errors: extra compiler flags and environment of the run.
+  // Python and Java print a traceback anyway, so they have none.
+  debug?: { flags: string[]; env: Record<string, string> };
+  // Builds compared by the undefined behavior check, keyed by a readable name. A program reading uninitialized memory
+  // or overflowing a signed integer often prints different outputs under different compilers and optimization levels.
+  ub_builds?: Record<string, { compiler: string; flags: string[] }>;
+};
+
+// The toolchains are shared with the cloud worker, so a solution is built and run the same way on both backends
+export const LANGUAGES: Record<Language, LanguageSpec> = {
+  cpp: { extension: 'cpp', fence_aliases: ['cpp', 'c++', 'cc', 'cxx'], ...TOOLCHAINS.cpp },
+  python: { extension: 'py', fence_aliases: ['python', 'python3', 'py'], ...TOOLCHAINS.python },
+  java: { extension: 'java', fence_aliases: ['java'], ...TOOLCHAINS.java },
+  rust: { extension: 'rs', fence_aliases: ['rust', 'rs'], ...TOOLCHAINS.rust },
+};
+
+// Identifies a solution, e.g. its votes on the synthetic tests in crossCheck.ts
+export function solutionHash(solution: string, language: Language): string {
+  return crypto.createHash('sha256').update(language).update('\0').update(solution).digest('hex');
+}
@@ -1,16 +1,27 @@
 import dotenv from "dotenv";
-import { Model } from '../types/models';
+import { DeltaListener, LLMCallContext, LLMProviderConfig, Model, ModelConfig } from '../types/models';
 import Together from 'together-ai';
+import OpenAI from 'openai';
+import { LLM_CACHE, LLM_MODELS, LLM_PROVIDERS } from '../config/config';
 import * as prompts from './prompts';
 import { parseJson } from './parse_utils';
 import { CODEX_API_ENDPOINT, ensureOpenAIAuth } from './openaiOAuth';
 import { v4 as uuidv4 } from 'uuid';
+import { CallTokens, recordUsage } from './usage';
+import { cacheKey, readCachedResponse, writeCachedResponse } from './llmCache';
+import { mockCompletion } from './mockLLM';
 
 dotenv.config({ path: "./config.env" });
 
 
 type Message = Together.Chat.Completions.CompletionCreateParams.Message | OpenAI.Chat.ChatCompletionMessageParam;
 
+// The answer of a provider, with the tokens it reports when it does
+type Reply = {
+    text: string;
+    tokens?: CallTokens;
+};
+
 function messageText(message: Message): string {
     const content = message.content;
     if (typeof content === 'string') {
@@ -66,7 +77,7 @@ function buildResponseInput(messages: Message[], isJson: boolean) {
     return { input: items, instructions: instructions.join('\n\n') };
 }
 
-async function callCodex(model: string, payload: ReturnType<typeof buildResponseInput>, auth: { access: string; accountId?: string }) {
+async function callCodex(model: string, payload: ReturnType<typeof buildResponseInput>, auth: { access: string; accountId?: string }, onDelta?: DeltaListener): Promise<Reply> {
     const response = await fetch(CODEX_API_ENDPOINT, {
         method: 'POST',
         headers: {
@@ -94,13 +105,14 @@ async function callCodex(model: string, payload: ReturnType<typeof buildResponse
     }
 
     if (!response.body) {
-        return '';
+        return { text: '' };
     }
 
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let buffer = '';
     let output = '';
+    let tokens: CallTokens | undefined;
 
     while (true) {
         const { value, done } = await reader.read();
@@ -125,6 +137,7 @@ async function callCodex(model: string, payload: ReturnType<typeof buildResponse
                 const event = JSON.parse(data);
                 if (event?.type === 'response.output_text.delta' && typeof event.delta === 'string') {
                     output += event.delta;
+                    onDelta?.(event.delta);
                 }
                 if (!output && event?.type === 'response.output_text.done' && typeof event.text === 'string') {
                     output = event.text;
@@ -132,87 +145,229 @@ async function callCodex(model: string, payload: ReturnType<typeof buildResponse
                 if (!output && event?.response?.output_text) {
                     output = event.response.output_text;
                 }
+                if (event?.type === 'response.completed' && event.response?.usage) {
+                    const usage = event.response.usage;
+                    tokens = {
+                        input_tokens: usage.input_tokens ?? 0,
+                        output_tokens: usage.output_tokens ?? 0,
+                        reasoning_tokens: usage.output_tokens_details?.reasoning_tokens ?? 0,
+                    };
+                }
             } catch {
                 continue;
             }
         }
     }
 
-    return output;
+    return { text: output, tokens };
 }
 
-async function llm(messages: string | Message[], model: Model, isJson: boolean = false): Promise<string> {
-    // Convert string input to proper message format
-    const formattedMessages = typeof messages === 'string' 
-        ? [{ role: "user", content: messages }] as Message[]
-        : messages;
+// The Codex endpoint rejects models the subscription has no access to with a 400, the next one is tried
+async function callCodexWithFallbacks(modelConfig: ModelConfig, messages: Message[], isJson: boolean, onDelta?: DeltaListener): Promise<Reply> {
+    const auth = await ensureOpenAIAuth();
+    if (!auth) {
+        throw new Error('OpenAI OAuth is not connected. Connect ChatGPT subscription to use Codex models.');
+    }
+    const payload = buildResponseInput(messages, isJson);
+    const fallbackModels = Array.from(new Set([
+        modelConfig.api_model,
+        'gpt-5.3-codex',
+        'gpt-5.2-codex',
+        'gpt-5.1-codex',
+        'gpt-5.1-codex-mini',
+        'gpt-5.1-codex-max',
+    ]));
 
-    try {
-        if (model === 'qwq-32b-preview') {
-            const client = new Together({apiKey: process.env.TOGETHER_API_KEY});
-            const response = await client.chat.completions.create({
-                model: 'Qwen/QwQ-32B-Preview',
-                messages: formattedMessages as Together.Chat.Completions.CompletionCreateParams.Message[],
-                max_tokens: 8192,
-            });
-            const answer = response.choices[0].message?.content || '';
-            formattedMessages.push({ role: "assistant", content: answer });
-            formattedMessages.push({ role: "user", content: prompts.final_answer_prompt() });
-            return llm(formattedMessages, 'llama-3.3-70b', isJson);
-        } else if (model === 'llama-3.3-70b') {
-            const client = new Together({apiKey: process.env.TOGETHER_API_KEY});
-            const response = await client.chat.completions.create({
-                model: 'meta-llama/Llama-3.3-70B-Instruct-Turbo',
-                messages: formattedMessages as Together.Chat.Completions.CompletionCreateParams.Message[],
-                response_format: isJson ? { type: "json_object" } : undefined,
-                max_tokens: 8192,
-            });
-            const content = response.choices[0].message?.content || '';
-            // Unfortunately, JSON mode is not yet supported by Together for this model
-            // so have to add manual parsing
-            if (isJson) {
-                return JSON.stringify(parseJson(content));
+    // A failed attempt may have streamed a part of its answer already, the next one starts over
+    let streamed = false;
+    let restart = false;
+    const attemptDelta: DeltaListener | undefined = onDelta && (delta => {
+        onDelta(delta, restart);
+        streamed = true;
+        restart = false;
+    });
+
+    let lastError: Error | undefined;
+    for (const candidate of fallbackModels) {
+        for (let attempt = 0; attempt < 3; attempt += 1) {
+            try {
+                return await callCodex(candidate, payload, auth, attemptDelta);
+            } catch (error) {
+                const err = error as Error & { status?: number };
+                lastError = err;
+                restart = streamed;
+                if (err.status && err.status !== 400 && err.status !== 429 && err.status !== 500 && err.status !== 503) {
+                    throw err;
+                }
+                if (err.status === 400) {
+                    break;
+                }
             }
-            return content;
-        } else {
-            const auth = await ensureOpenAIAuth();
-            if (!auth) {
-                throw new Error('OpenAI OAuth is not connected. Connect ChatGPT subscription to use Codex models.');
+        }
+    }
+
+    throw lastError || new Error('Codex request failed');
+}
+
+function apiKey(provider: LLMProviderConfig): string | undefined {
+    return provider.api_key_env ? process.env[provider.api_key_env] : undefined;
+}
+
+async function callTogether(provider: LLMProviderConfig, modelConfig: ModelConfig, messages: Message[], isJson: boolean, maxTokens: number): Promise<Reply> {
+    const client = new Together({ apiKey: apiKey(provider), baseURL: provider.base_url });
+    const response = await client.chat.completions.create({
+        model: modelConfig.api_model,
+        messages: messages as Together.Chat.Completions.CompletionCreateParams.Message[],
+        response_format: isJson && modelConfig.capabilities.json_mode ? { type: "json_object" } : undefined,
+        max_tokens: maxTokens,
+    });
+    return {
+        text: response.choices[0].message?.content || '',
+        tokens: response.usage ? {
+            input_tokens: response.usage.prompt_tokens,
+            output_tokens: response.usage.completion_tokens,
+            reasoning_tokens: 0,
+        } : undefined,
+    };
+}
+
+async function callOpenAI(provider: LLMProviderConfig, modelConfig: ModelConfig, messages: Message[], isJson: boolean, maxTokens: number, onDelta?: DeltaListener): Promise<Reply> {
+    if (provider.kind === 'openai' && !apiKey(provider)) {
+        throw new Error(`${provider.api_key_env || 'An API key'} is not set in config.env`);
+    }
+    // Local servers accept any key, but the client refuses to start without one
+    const client = new OpenAI({ apiKey: apiKey(provider) || 'none', baseURL: provider.base_url });
+    const params = {
+        model: modelConfig.api_model,
+        messages: messages as OpenAI.Chat.ChatCompletionMessageParam[],
+        response_format: isJson && modelConfig.capabilities.json_mode ? { type: "json_object" as const } : undefined,
+        ...(modelConfig.capabilities.reasoning ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens }),
+    };
+
+    if (onDelta) {
+        const stream = await client.chat.completions.create({ ...params, stream: true, stream_options: { include_usage: true } });
+        let text = '';
+        let tokens: CallTokens | undefined;
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
             }
-            const payload = buildResponseInput(formattedMessages as Message[], isJson);
-            const fallbackModels = Array.from(new Set([
-                model,
-                'gpt-5.3-codex',
-                'gpt-5.2-codex',
-                'gpt-5.1-codex',
-                'gpt-5.1-codex-mini',
-                'gpt-5.1-codex-max',
-            ]));
-
-            let lastError: Error | undefined;
-            for (const candidate of fallbackModels) {
-                for (let attempt = 0; attempt < 3; attempt += 1) {
-                    try {
-                        return await callCodex(candidate, payload, auth);
-                    } catch (error) {
-                        const err = error as Error & { status?: number };
-                        lastError = err;
-                        if (err.status && err.status !== 400 && err.status !== 429 && err.status !== 500 && err.status !== 503) {
-                            throw err;
-                        }
-                        if (err.status === 400) {
-                            break;
-                        }
-                    }
-                }
+            if (chunk.usage) {
+                tokens = {
+                    input_tokens: chunk.usage.prompt_tokens,
+                    output_tokens: chunk.usage.completion_tokens,
+                    reasoning_tokens: chunk.usage.completion_tokens_details?.reasoning_tokens ?? 0,
+                };
             }
+        }
+        return { text, tokens };
+    }
+
+    const response = await client.chat.completions.create(params);
+    return {
+        text: response.choices[0].message?.content || '',
+        tokens: response.usage ? {
+            input_tokens: response.usage.prompt_tokens,
+            output_tokens: response.usage.completion_tokens,
+            reasoning_tokens: response.usage.completion_tokens_details?.reasoning_tokens ?? 0,
+        } : undefined,
+    };
+}
+
+// About 4 characters per token, close enough to tell whether a prompt fits
+function estimateTokens(messages: Message[]): number {
+    return Math.ceil(messages.reduce((total, message) => total + messageText(message).length, 0) / 4);
+}
+
+async function callModel(formattedMessages: Message[], model: Model, context: LLMCallContext, isJson: boolean, onDelta?: DeltaListener): Promise<string> {
+    const modelConfig = LLM_MODELS[model];
+    if (!modelConfig) {
+        throw new Error(`Unknown model ${model}, add it to LLM_MODELS in config.ts`);
+    }
+    const provider = LLM_PROVIDERS[modelConfig.provider];
+    if (!provider) {
+        throw new Error(`Unknown provider ${modelConfig.provider} of model ${model}, add it to LLM_PROVIDERS in config.ts`);
+    }
+    const { capabilities } = modelConfig;
+    const maxTokens = Math.min(capabilities.max_output_tokens, capabilities.context_tokens - estimateTokens(formattedMessages));
+    if (maxTokens <= 0) {
+        throw new Error(`The prompt does not fit into the ${capabilities.context_tokens} token context of ${model}`);
+    }
 
-            throw lastError || new Error('Codex request failed');
+    try {
+        let reply: Reply;
+        switch (provider.kind) {
+            case 'codex':
+                reply = await callCodexWithFallbacks(modelConfig, formattedMessages, isJson, onDelta);
+                break;
+            case 'together':
+                reply = await callTogether(provider, modelConfig, formattedMessages, isJson, maxTokens);
+                onDelta?.(reply.text);
+                break;
+            case 'openai':
+            case 'openai_compatible':
+                reply = await callOpenAI(provider, modelConfig, formattedMessages, isJson, maxTokens, onDelta);
+                break;
+            case 'mock': {
+                const prompt = formattedMessages.map(messageText).join('\n\n');
+                const text = mockCompletion(prompt, context.stage);
+                reply = { text, tokens: { input_tokens: estimateTokens(formattedMessages), output_tokens: Math.ceil(text.length / 4), reasoning_tokens: 0 } };
+                onDelta?.(text);
+                break;
+            }
+        }
+        if (reply.tokens) {
+            recordUsage(context, model, reply.tokens);
+        }
+        let answer = reply.text;
+        if (capabilities.reasoning) {
+            answer = answer.replace(/^[\s\S]*<\/think>/, '').trim();
         }
+
+        if (modelConfig.final_answer_model) {
+            const finalAnswerMessages: Message[] = [
+                ...formattedMessages,
+                { role: "assistant", content: answer },
+                { role: "user", content: prompts.final_answer_prompt() },
+            ];
+            onDelta?.('\n\n');
+            return llm(finalAnswerMessages, modelConfig.final_answer_model, context, isJson, onDelta);
+        }
+        if (isJson && !capabilities.json_mode) {
+            return JSON.stringify(parseJson(answer));
+        }
+        return answer;
     } catch (error) {
         console.error("Error in LLM call:", error);
         throw error;
     }
 }
 
-export default llm; 
+// `context` is the problem and the pipeline stage the tokens of the call are accounted to.
+// `onDelta` gets the answer while it is written, providers that don't stream give it all at once.
+async function llm(messages: string | Message[], model: Model, context: LLMCallContext, isJson: boolean = false, onDelta?: DeltaListener): Promise<string> {
+    // Convert string input to proper message format
+    const formattedMessages = typeof messages === 'string' 
+        ? [{ role: "user", content: messages }] as Message[]
+        : messages;
+
+    if (LLM_CACHE === 'off') {
+        return callModel(formattedMessages, model, context, isJson, onDelta);
+    }
+    const key = cacheKey(model, formattedMessages, isJson);
+    const cached = readCachedResponse(key);
+    if (cached !== undefined) {
+        onDelta?.(cached);
+        return cached;
+    }
+    if (LLM_CACHE === 'replay') {
+        throw new Error(`No cached answer of ${model} for this prompt (${key}.json), LLM_CACHE is 'replay'`);
+    }
+    const answer = await callModel(formattedMessages, model, context, isJson, onDelta);
+    writeCachedResponse(key, model, formattedMessages, isJson, answer);
+    return answer;
+}
+
+export default llm;
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLM_CACHE_DIR } from '../config/config';
+import { Model } from '../types/models';
+
+// One cached call, the request is kept to make the files readable
+type CachedResponse = {
+  model: Model;
+  is_json: boolean;
+  messages: unknown[];
+  answer: string;
+};
+
+export function cacheKey(model: Model, messages: unknown[], isJson: boolean): string {
+  return crypto.createHash('sha256').update(JSON.stringify({ model, messages, is_json: isJson })).digest('hex');
+}
+
+function cachePath(key: string): string {
+  return path.join(LLM_CACHE_DIR, `${key}.json`);
+}
+
+export function readCachedResponse(key: string): string | undefined {
+  try {
+    return (JSON.parse(fs.readFileSync(cachePath(key), 'utf8')) as CachedResponse).answer;
+  } catch {
+    return undefined;
+  }
+}
+
+// Written to a temp file first, so a concurrent reader never sees half an answer
+export function writeCachedResponse(key: string, model: Model, messages: unknown[], isJson: boolean, answer: string): void {
+  const response: CachedResponse = { model, is_json: isJson, messages, answer };
+  fs.mkdirSync(LLM_CACHE_DIR, { recursive: true });
+  const tempPath = `${cachePath(key)}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(response, null, 2));
+  fs.renameSync(tempPath, cachePath(key));
+}
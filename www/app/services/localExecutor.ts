@@ -0,0 +1,262 @@
+import { execFile, spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import { mkdir, mkdtemp, rm, writeFile, readFile, rename } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { classifyInteraction, classifyRun, collectStderr, pruneBuildCache, runnerArgs, touchBuild } from '../../../cloud-run-worker/sandbox';
+import { ExecutionBackend, ExecutionOptions, ExecutionResult, Interactor } from '../types/execution';
+import { Language } from '../types/language';
+import { LANGUAGES } from './languages';
+
+const COMPILE_TIMEOUT = 60000; // 1 minute
+
+// The cloud worker's runner, so both backends enforce limits and measure usage the same way
+const RUNNER_SOURCE_PATH = path.join(process.cwd(), '..', 'cloud-run-worker', 'sandbox_runner.cpp');
+const BUILD_CACHE_DIR = path.join(os.tmpdir(), 'stackfish-builds');
+const BUILD_CACHE_MAX_MB = 2048;
+
+type Build = { dir?: string; error?: string };
+// Extra compiler flags and a compiler replacing the language's default one
+type BuildConfig = { flags: string[]; compiler?: string };
+
+const builds = new Map<string, Promise<Build>>();
+
+function compile(command: string[]): Promise<string | undefined> {
+  return new Promise(resolve => {
+    execFile(command[0], command.slice(1), { timeout: COMPILE_TIMEOUT }, (error, stdout, stderr) => {
+      resolve(error ? (stderr || stdout || error.message) : undefined);
+    });
+  });
+}
+
+function hashOf(...parts: string[]): string {
+  return crypto.createHash('sha256').update(parts.join('\0')).digest('hex');
+}
+
+function buildKey(sourceCode: string, language: Language, config: BuildConfig): string {
+  return hashOf(language, sourceCode, ...config.flags, ...(config.compiler ? [config.compiler] : []));
+}
+
+// Builds in a temp dir and renames it, so a concurrent reader never sees half-written artifacts
+async function buildToCache(sourceCode: string, language: Language, config: BuildConfig): Promise<Build> {
+  const dir = path.join(BUILD_CACHE_DIR, buildKey(sourceCode, language, config));
+  if (fs.existsSync(dir)) {
+    void touchBuild(dir);
+    return { dir };
+  }
+  await mkdir(BUILD_CACHE_DIR, { recursive: true });
+  const buildDir = await mkdtemp(path.join(os.tmpdir(), 'stackfish-build-'));
+  try {
+    const spec = LANGUAGES[language];
+    await writeFile(path.join(buildDir, spec.source_file), sourceCode, 'utf8');
+    const error = await compile(spec.compile(buildDir, config.flags, config.compiler));
+    if (error) {
+      return { error: error.split(buildDir).join('.') };
+    }
+    // Another process may have stored the same build in the meantime, then its copy is used
+    await rename(buildDir, dir).catch(() => undefined);
+    if (!fs.existsSync(dir)) {
+      return { error: 'Failed to store the build' };
+    }
+    void pruneBuildCache(BUILD_CACHE_DIR, BUILD_CACHE_MAX_MB * 1024 * 1024);
+    return { dir };
+  } finally {
+    await rm(buildDir, { recursive: true, force: true });
+  }
+}
+
+// Builds are cached on disk by the hash of the language, source, flags and compiler, in-flight builds are shared.
+// Compile errors are not cached, so a flaky compiler failure can be retried.
+// The least recently used builds are evicted once the cache outgrows BUILD_CACHE_MAX_MB.
+function getBuild(sourceCode: string, language: Language, config: BuildConfig = { flags: [] }): Promise<Build> {
+  const key = buildKey(sourceCode, language, config);
+  let build = builds.get(key);
+  if (!build) {
+    build = buildToCache(sourceCode, language, config)
+      .catch(error => ({ error: error instanceof Error ? error.message : 'Compilation failed' }))
+      .finally(() => builds.delete(key));
+    builds.set(key, build);
+  }
+  return build;
+}
+
+// The sandbox runner is cached like any other build, looking it up on every run keeps it from being evicted
+async function getRunner(): Promise<string> {
+  const source = await readFile(RUNNER_SOURCE_PATH, 'utf8');
+  const { dir, error } = await getBuild(source, 'cpp', { flags: ['-O2'] });
+  if (!dir) {
+    throw new Error(`Failed to compile the sandbox runner: ${error}`);
+  }
+  return LANGUAGES.cpp.run(dir, 0)[0];
+}
+
+// Runs the command inside the sandbox runner with stdin/stdout bound to files
+async function run(command: string[], limitAddressSpace: boolean, env: Record<string, string>, inputPath: string, outputPath: string, options: ExecutionOptions): Promise<Omit<ExecutionResult, 'output'>> {
+  const runner = await getRunner();
+  const reportPath = `${outputPath}.usage.json`;
+
+  const input = fs.openSync(inputPath, 'r');
+  const output = fs.openSync(outputPath, 'w');
+  let stderr: string;
+  try {
+    const child = spawn(runner, [...runnerArgs(limitAddressSpace, options, reportPath), ...command], {
+      stdio: [input, output, 'pipe'],
+      env: { ...process.env, ...env },
+    });
+    stderr = await collectStderr(child);
+  } finally {
+    fs.closeSync(input);
+    fs.closeSync(output);
+  }
+
+  const usage = JSON.parse(await readFile(reportPath, 'utf8'));
+  return classifyRun(usage, stderr, options);
+}
+
+// Runs the solution and the interactor side by side in the sandbox runner, each one's stdout piped to the other's stdin.
+// The interactor reads the test from inputPath and writes its log to outputPath.
+// Every line the solution sends counts as a query, going over max_queries stops both programs.
+async function runInteractive(command: string[], limitAddressSpace: boolean, env: Record<string, string>, interactor: Interactor, interactorPath: string, inputPath: string, outputPath: string, options: ExecutionOptions): Promise<Omit<ExecutionResult, 'output'>> {
+  const runner = await getRunner();
+  const reportPath = `${outputPath}.usage.json`;
+  const interactorReportPath = `${outputPath}.interactor.json`;
+
+  const solution = spawn(runner, [...runnerArgs(limitAddressSpace, options, reportPath), ...command], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+    env: { ...process.env, ...env },
+  });
+  const judge = spawn(runner, [...runnerArgs(false, options, interactorReportPath), interactorPath, inputPath, outputPath], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+
+  // Either side may exit first, writes to its closed stdin are dropped
+  solution.stdin?.on('error', () => undefined);
+  judge.stdin?.on('error', () => undefined);
+
+  let queries = 0;
+  let queryLimitExceeded = false;
+  solution.stdout?.on('data', (chunk: Buffer) => {
+    if (queryLimitExceeded) {
+      return;
+    }
+    queries += chunk.filter(byte => byte === 0x0a).length;
+    if (interactor.max_queries !== undefined && queries > interactor.max_queries) {
+      queryLimitExceeded = true;
+      solution.kill();
+      judge.kill();
+      return;
+    }
+    judge.stdin?.write(chunk);
+  });
+  judge.stdout?.on('data', (chunk: Buffer) => solution.stdin?.write(chunk));
+  // The runner closes its own copy of the pipes, so a stdout ends when the program behind it exits
+  let solutionExited = false;
+  let interactorExitedFirst = false;
+  solution.stdout?.on('end', () => {
+    solutionExited = true;
+    judge.stdin?.end();
+  });
+  judge.stdout?.on('end', () => {
+    interactorExitedFirst = !solutionExited;
+    solution.stdin?.end();
+  });
+
+  const [stderr, interactorStderr] = await Promise.all([collectStderr(solution), collectStderr(judge)]);
+  const usage = JSON.parse(await readFile(reportPath, 'utf8'));
+  const interactorUsage = JSON.parse(await readFile(interactorReportPath, 'utf8'));
+  return classifyInteraction(classifyRun(usage, stderr, options), interactorUsage, interactorStderr, interactorExitedFirst, queryLimitExceeded ? interactor.max_queries : undefined);
+}
+
+async function runOnInput(dir: string, language: Language, options: ExecutionOptions, interactorPath?: string, inputString?: string, inputPath?: string): Promise<ExecutionResult> {
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'stackfish-'));
+  const outputPath = path.join(workDir, 'output.txt');
+
+  try {
+    if (!inputPath) {
+      inputPath = path.join(workDir, 'input.txt');
+      await writeFile(inputPath, inputString || '', 'utf8');
+    }
+
+    const spec = LANGUAGES[language];
+    const debug = options.debug_build ? spec.debug : undefined;
+    // Sanitizers reserve terabytes of shadow memory, so a debug build only gets the stack limit
+    const command = spec.run(dir, options.memory_limit_mb);
+    const limitAddressSpace = spec.limit_address_space && !debug;
+    const result = options.interactor && interactorPath
+      ? await runInteractive(command, limitAddressSpace, debug?.env || {}, options.interactor, interactorPath, inputPath, outputPath, options)
+      : await run(command, limitAddressSpace, debug?.env || {}, inputPath, outputPath, options);
+    if (result.error) {
+      return { output: '', ...result };
+    }
+
+    return { output: await readFile(outputPath, 'utf8'), ...result };
+  } catch (error) {
+    return {
+      output: '',
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// A compiler missing for one of the ub_builds (e.g. clang++ is not installed) shows up as a compile error
+function buildConfig(language: Language, options: ExecutionOptions): BuildConfig {
+  const spec = LANGUAGES[language];
+  const ubBuild = options.ub_build ? spec.ub_builds?.[options.ub_build] : undefined;
+  if (ubBuild) {
+    return ubBuild;
+  }
+  return { flags: options.debug_build ? spec.debug?.flags || [] : [] };
+}
+
+// The interactor's binary, built like a C++ solution. A compile error is the problem's fault, so it gets no CE verdict.
+async function buildInteractor(options: ExecutionOptions): Promise<{ path?: string; error?: string }> {
+  if (!options.interactor) {
+    return {};
+  }
+  const { dir, error } = await getBuild(options.interactor.source, 'cpp');
+  return dir ? { path: LANGUAGES.cpp.run(dir, 0)[0] } : { error: `Interactor does not compile: ${error}` };
+}
+
+async function executeLocally(sourceCode: string, language: Language, options: ExecutionOptions, inputString?: string, inputPath?: string): Promise<ExecutionResult> {
+  const { dir, error } = await getBuild(sourceCode, language, buildConfig(language, options));
+  if (!dir) {
+    return { output: '', error, verdict: 'CE' };
+  }
+  const interactor = await buildInteractor(options);
+  if (interactor.error) {
+    return { output: '', error: interactor.error };
+  }
+  return runOnInput(dir, language, options, interactor.path, inputString, inputPath);
+}
+
+// Runs up to one input per CPU core at a time, limits are on CPU time so parallel runs don't skew verdicts much
+async function executeBatchLocally(sourceCode: string, language: Language, options: ExecutionOptions, inputs: string[]): Promise<ExecutionResult[]> {
+  const { dir, error } = await getBuild(sourceCode, language, buildConfig(language, options));
+  if (!dir) {
+    return inputs.map(() => ({ output: '', error, verdict: 'CE' }));
+  }
+  const interactor = await buildInteractor(options);
+  if (interactor.error) {
+    return inputs.map(() => ({ output: '', error: interactor.error }));
+  }
+
+  const results: ExecutionResult[] = new Array(inputs.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(os.cpus().length, inputs.length) }, async () => {
+    while (next < inputs.length) {
+      const i = next++;
+      results[i] = await runOnInput(dir, language, options, interactor.path, inputs[i]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+// Compiles with the local toolchains (g++, python3, javac, rustc) and runs on this machine, no GCP project required
+export const localBackend: ExecutionBackend = {
+  execute: executeLocally,
+  executeBatch: executeBatchLocally,
+};
@@ -0,0 +1,45 @@
+import { LLMStage } from '../types/models';
+
+// One scripted answer of the mock provider. A rule matches a call by its stage and a regex over the text of
+// its messages, a rule without either matches every call.
+export type MockRule = {
+  stage?: LLMStage;
+  pattern?: RegExp;
+  // Given in turn to the calls the rule matches, the last one repeats
+  responses: string[];
+};
+
+export type MockCall = {
+  stage: LLMStage;
+  prompt: string;
+  response: string;
+};
+
+let script: MockRule[] = [];
+let served = new Map<MockRule, number>();
+let calls: MockCall[] = [];
+
+// Replaces the script and forgets the calls made so far
+export function setMockScript(rules: MockRule[]): void {
+  script = rules;
+  served = new Map();
+  calls = [];
+}
+
+// The calls answered since the script was set, in order
+export function getMockCalls(): MockCall[] {
+  return calls;
+}
+
+// Answers with the first rule matching the call, a call no rule matches fails like an unreachable provider would
+export function mockCompletion(prompt: string, stage: LLMStage): string {
+  const rule = script.find(rule => (!rule.stage || rule.stage === stage) && (!rule.pattern || rule.pattern.test(prompt)));
+  if (!rule || rule.responses.length === 0) {
+    throw new Error(`No mock response for a ${stage} prompt: ${prompt.substring(0, 200)}`);
+  }
+  const count = served.get(rule) ?? 0;
+  served.set(rule, count + 1);
+  const response = rule.responses[Math.min(count, rule.responses.length - 1)];
+  calls.push({ stage, prompt, response });
+  return response;
+}
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { PROBLEMS_PATH } from '../config/config';
+import { OutputFormatResult } from '../types/tests';
+import { isInteractive } from './problemMetadata';
+
+// The first issues are enough to tell what is wrong
+const MAX_ISSUES = 5;
+const CASE_LINE = /^Case #(\d+):(.*)$/;
+const MAX_QUOTED_LENGTH = 100;
+
+function quote(line: string): string {
+  return `"${line.length > MAX_QUOTED_LENGTH ? line.substring(0, MAX_QUOTED_LENGTH) + '...' : line}"`;
+}
+
+// T is the first token of full_in.txt, which can be huge, so only its start is read
+function readTestCount(problem: string): number | undefined {
+  const file = fs.openSync(path.join(PROBLEMS_PATH, problem, 'full_in.txt'), 'r');
+  try {
+    const buffer = Buffer.alloc(64);
+    const bytes = fs.readSync(file, buffer, 0, buffer.length, 0);
+    const token = buffer.toString('utf8', 0, bytes).trim().split(/\s+/)[0];
+    return /^\d+$/.test(token) ? Number(token) : undefined;
+  } finally {
+    fs.closeSync(file);
+  }
+}
+
+// The kinds of the tokens after "Case #k:", repeats merged so lists of any length have the same shape:
+// "Case #1: 3 1 2" and "Case #2: 5" are both "number", "Case #3: IMPOSSIBLE" is "word"
+function shapeOf(answer: string): string {
+  const kinds = answer.trim().split(/\s+/).filter(token => token.length > 0)
+    .map(token => /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(token) ? 'number' : 'word');
+  return kinds.filter((kind, i) => kind !== kinds[i - 1]).join(' ') || 'empty';
+}
+
+// Checks the full output before it is saved: it is not empty, has a "Case #k:" line for each of the T test cases
+// of full_in.txt in order, and every case line looks like one of the case lines of sample_out.txt.
+// Outputs not in the "Case #k:" format only get the emptiness check, and interactor logs none at all.
+export function verifyOutputFormat(problem: string, output: string): OutputFormatResult {
+  if (isInteractive(problem)) {
+    return { is_valid: true, issues: [] };
+  }
+  if (output.trim().length === 0) {
+    return { is_valid: false, issues: ['The output is empty'] };
+  }
+
+  const sampleOutput = fs.readFileSync(path.join(PROBLEMS_PATH, problem, 'sample_out.txt'), 'utf8');
+  const sampleCases = sampleOutput.split('\n').map(line => line.trim().match(CASE_LINE)).filter(match => match !== null);
+  if (sampleCases.length === 0) {
+    return { is_valid: true, issues: [] };
+  }
+  const sampleShapes = new Set(sampleCases.map(match => shapeOf(match[2])));
+
+  const issues: string[] = [];
+  const cases = output.split('\n').map(line => line.trim().match(CASE_LINE)).filter(match => match !== null);
+  const expectedCount = readTestCount(problem);
+  if (expectedCount !== undefined && cases.length !== expectedCount) {
+    issues.push(`Expected ${expectedCount} "Case #" lines (T in the input), got ${cases.length}`);
+  }
+
+  for (let i = 0; i < cases.length && issues.length < MAX_ISSUES; i++) {
+    const [line, number, answer] = cases[i];
+    if (Number(number) !== i + 1) {
+      issues.push(`Case #${i + 1} expected, got ${quote(line)}`);
+      continue;
+    }
+    const shape = shapeOf(answer);
+    if (!sampleShapes.has(shape)) {
+      issues.push(`${quote(line)} does not look like the sample output (${shape} instead of ${[...sampleShapes].join(' or ')})`);
+    }
+  }
+
+  return { is_valid: issues.length === 0, issues: issues.slice(0, MAX_ISSUES) };
+}
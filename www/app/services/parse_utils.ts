@@ -1,6 +1,18 @@
 import relaxedJson from 'relaxed-json';
+import { Language } from '../types/language';
+import { LANGUAGES } from './languages';
+
+// When the language is known, a block fenced with its tag wins over other blocks (e.g. a sample input in ```text)
+export function parseCode(llm_output: string, language?: Language): string {
+  if (language) {
+    const aliases = LANGUAGES[language].fence_aliases;
+    for (const block of llm_output.matchAll(/```([\w+#-]*)\n([\s\S]*?)```/g)) {
+      if (aliases.includes(block[1].toLowerCase())) {
+        return block[2].trim();
+      }
+    }
+  }
 
-export function parseCode(llm_output: string): string {
   const codeBlockRegex = /^[\s\S]*?```(?:\w+\n)?([\s\S]*?)```[\s\S]*$/;
   const match = llm_output.match(codeBlockRegex);
   
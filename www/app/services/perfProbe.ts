@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { FAILED_STATE_RETRY_MS, FULL_RUN_SHARDS, PERF_PROBE_INPUTS, PERF_PROBE_MODEL, PROBLEMS_PATH } from '../config/config';
+import { Language } from '../types/language';
+import { PerfProbeState } from '../types/problem';
+import { PerfProbeResult, ProbeTiming } from '../types/tests';
+import { executeSolution, executeSolutionBatch } from './executor';
+import { validateInputs } from './inputValidator';
+import llm from './llm';
+import { parseCode } from './parse_utils';
+import { getExecutionOptions, getProblemMetadata, getSolutionOptions } from './problemMetadata';
+import * as prompts from './prompts';
+import * as promptLogger from './promptLogger';
+import { buildShards, getSubtasks } from './splitter';
+
+const MAX_PROBE_ATTEMPTS = 2;
+
+// Every solution passing the stress test asks for the max-size inputs at about the same time, they share one preparation
+const preparations = new Map<string, Promise<PerfProbeState>>();
+
+function probeDir(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'perf_probe');
+}
+
+function probeStatePath(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'perf_probe.json');
+}
+
+// A failed state is dropped once it is old enough to generate the inputs again
+function readProbeState(problem: string): PerfProbeState | undefined {
+  try {
+    const state: PerfProbeState = JSON.parse(fs.readFileSync(probeStatePath(problem), 'utf8'));
+    return state.status === 'failed' && Date.now() - (state.failed_at ?? 0) >= FAILED_STATE_RETRY_MS ? undefined : state;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeProbeState(problem: string, state: PerfProbeState): void {
+  fs.mkdirSync(path.dirname(probeStatePath(problem)), { recursive: true });
+  fs.writeFileSync(probeStatePath(problem), JSON.stringify(state, null, 2));
+}
+
+// Writes the max-size generator and keeps the inputs it generates that pass the input validator.
+// The inputs can be megabytes, so they are stored as files next to the state.
+async function generateProbeInputs(problem: string): Promise<PerfProbeState> {
+  const problemDir = path.join(PROBLEMS_PATH, problem);
+  const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
+  const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
+  const prompt = prompts.max_test_generator_prompt(statement, sampleInput);
+
+  let error = '';
+  for (let attempt = 0; attempt < MAX_PROBE_ATTEMPTS; attempt++) {
+    try {
+      promptLogger.log(problem, 'Max Test Generator Prompt', prompt);
+      const generator = parseCode(await llm(prompt, PERF_PROBE_MODEL, { problem, stage: 'test_tools' }), 'cpp');
+
+      const seeds = Array.from({ length: PERF_PROBE_INPUTS }, (_, i) => String(i + 1));
+      const generated = await executeSolutionBatch(generator, 'cpp', getExecutionOptions(problem), seeds);
+      const inputs = [...new Set(generated.filter(result => !result.error).map(result => result.output.trim()))]
+        .filter(input => input.length > 0);
+      if (inputs.length === 0) {
+        throw new Error(`Max test generator produced no inputs: ${generated[0]?.error}`);
+      }
+
+      const rejections = await validateInputs(problem, inputs);
+      const valid = inputs.filter((_, i) => rejections[i] === undefined);
+      if (valid.length === 0) {
+        throw new Error(`Every max-size input breaks the constraints: ${rejections[0]}`);
+      }
+
+      fs.mkdirSync(probeDir(problem), { recursive: true });
+      const input_files = valid.map((input, i) => {
+        const file = `${i + 1}.txt`;
+        fs.writeFileSync(path.join(probeDir(problem), file), input + '\n');
+        return file;
+      });
+
+      const state: PerfProbeState = { status: 'ready', generator, input_files };
+      writeProbeState(problem, state);
+      return state;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      console.error(`Performance probe attempt ${attempt + 1} failed for ${problem}:`, error);
+    }
+  }
+
+  const state: PerfProbeState = { status: 'failed', error, failed_at: Date.now() };
+  writeProbeState(problem, state);
+  return state;
+}
+
+async function prepareProbeInputs(problem: string): Promise<PerfProbeState> {
+  const cached = readProbeState(problem);
+  if (cached) {
+    return cached;
+  }
+  let preparation = preparations.get(problem);
+  if (!preparation) {
+    preparation = generateProbeInputs(problem).finally(() => preparations.delete(problem));
+    preparations.set(problem, preparation);
+  }
+  return preparation;
+}
+
+// Bytes of input one run of the full test gets: the biggest shard once full_in.txt is split, the whole file otherwise
+async function fullRunInputBytes(problem: string): Promise<number> {
+  const cases = await getSubtasks(problem);
+  if (cases && cases.length > 1) {
+    return Math.max(...buildShards(cases, FULL_RUN_SHARDS).map(shard => Buffer.byteLength(shard.input)));
+  }
+  return fs.statSync(path.join(PROBLEMS_PATH, problem, 'full_in.txt')).size;
+}
+
+// Times the solution on the max-size inputs, one at a time so the runs don't slow each other down,
+// and scales the slowest time per byte to the full run. A probe exceeding the time limit of a single test
+// makes the solution slow by itself, the remaining inputs are not tried.
+export async function probePerformance(problem: string, solution: string, language: Language): Promise<PerfProbeResult> {
+  const state = await prepareProbeInputs(problem);
+  if (state.status !== 'ready' || !state.input_files?.length) {
+    return { status: 'skipped', timings: [], reason: state.error || 'no max-size inputs' };
+  }
+
+  const timings: ProbeTiming[] = [];
+  for (const file of state.input_files) {
+    const inputPath = path.join(probeDir(problem), file);
+    const result = await executeSolution(solution, language, getSolutionOptions(problem), undefined, inputPath);
+    if (result.error && result.verdict !== 'TLE') {
+      // Crashes on the probe are for the other stages to catch, the timing says nothing
+      return { status: 'skipped', timings, reason: `${result.verdict || 'RE'} on a max-size input` };
+    }
+    timings.push({
+      input_bytes: fs.statSync(inputPath).size,
+      wall_time_ms: result.usage?.wall_time_ms ?? 0,
+      time_limit_exceeded: result.verdict === 'TLE',
+    });
+    if (result.verdict === 'TLE') {
+      break;
+    }
+  }
+
+  const full_time_limit_ms = getProblemMetadata(problem).full_time_limit_seconds * 1000;
+  const fullBytes = await fullRunInputBytes(problem);
+  const msPerByte = Math.max(...timings.map(timing => timing.wall_time_ms / Math.max(timing.input_bytes, 1)));
+  const estimated_full_ms = Math.round(msPerByte * fullBytes);
+  const slow = timings.some(timing => timing.time_limit_exceeded) || estimated_full_ms > full_time_limit_ms;
+  return { status: slow ? 'slow' : 'fast', timings, estimated_full_ms, full_time_limit_ms };
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_FULL_TIME_LIMIT_SECONDS, DEFAULT_MEMORY_LIMIT_MB, DEFAULT_OUTPUT_LIMIT_MB, DEFAULT_TIME_LIMIT_SECONDS, PROBLEMS_PATH } from '../config/config';
+import { ProblemMetadata } from '../types/problem';
+import { ExecutionOptions } from '../types/execution';
+
+export function getProblemMetadata(problem: string): ProblemMetadata {
+  const defaults: ProblemMetadata = {
+    time_limit_seconds: DEFAULT_TIME_LIMIT_SECONDS,
+    memory_limit_mb: DEFAULT_MEMORY_LIMIT_MB,
+    output_limit_mb: DEFAULT_OUTPUT_LIMIT_MB,
+    full_time_limit_seconds: DEFAULT_FULL_TIME_LIMIT_SECONDS,
+  };
+  const metadataPath = path.join(PROBLEMS_PATH, problem, 'metadata.json');
+  if (!fs.existsSync(metadataPath)) {
+    return defaults;
+  }
+  try {
+    return { ...defaults, ...JSON.parse(fs.readFileSync(metadataPath, 'utf8')) };
+  } catch (error) {
+    console.error(`Invalid metadata.json for problem ${problem}:`, error);
+    return defaults;
+  }
+}
+
+export function getExecutionOptions(problem: string, full: boolean = false): ExecutionOptions {
+  const metadata = getProblemMetadata(problem);
+  return {
+    time_limit_seconds: full ? metadata.full_time_limit_seconds : metadata.time_limit_seconds,
+    memory_limit_mb: metadata.memory_limit_mb,
+    output_limit_mb: metadata.output_limit_mb,
+  };
+}
+
+// A judge program (checker.cpp, interactor.cpp) from the problem dir, undefined when there is none.
+// Programs are built from a single file, so a testlib.h placed next to it is inlined.
+export function readJudgeProgram(problem: string, file: string): string | undefined {
+  const problemDir = path.join(PROBLEMS_PATH, problem);
+  if (!fs.existsSync(path.join(problemDir, file))) {
+    return undefined;
+  }
+  const source = fs.readFileSync(path.join(problemDir, file), 'utf8');
+  const testlibPath = path.join(problemDir, 'testlib.h');
+  if (!fs.existsSync(testlibPath)) {
+    return source;
+  }
+  const testlib = fs.readFileSync(testlibPath, 'utf8');
+  return source.replace(/^#include\s*["<]testlib\.h[">].*$/m, () => testlib);
+}
+
+// Options for running a solution (or the brute force) rather than a helper program:
+// on an interactive problem the run goes through the interactor
+export function getSolutionOptions(problem: string, full: boolean = false): ExecutionOptions {
+  const options = getExecutionOptions(problem, full);
+  const metadata = getProblemMetadata(problem);
+  if (!metadata.interactive) {
+    return options;
+  }
+  const source = readJudgeProgram(problem, 'interactor.cpp');
+  if (!source) {
+    console.error(`Problem ${problem} is interactive, but has no interactor.cpp`);
+    return options;
+  }
+  return { ...options, interactor: { source, max_queries: metadata.max_queries } };
+}
+
+export function isInteractive(problem: string): boolean {
+  return getProblemMetadata(problem).interactive === true;
+}
+
+// Decided by the LLM from the statement, see the is_only_one_output_valid route
+export function isOnlyOneOutputValid(problem: string): boolean {
+  try {
+    const cacheFilePath = path.join(PROBLEMS_PATH, problem, '_state', 'is_only_one_output_valid.json');
+    const cacheData = fs.readFileSync(cacheFilePath, 'utf8');
+    return JSON.parse(cacheData).is_only_one_output_valid;
+  } catch (error) {
+    console.error('Is only one output valid operation failed:', error);
+    return true;
+  }
+}
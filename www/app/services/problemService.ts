@@ -1,30 +1,74 @@
-import { attackVectorCallsPerModel, directSolutionCallsPerModel, postAttackVectorSolutionCallsPerModel, postSyntheticTestCallsPerModel, syntheticTestCallsPerModel } from '../config/config';
-import { Model } from '../types/models';
-import { SyntheticTest } from '../types/tests';
+import { attackVectorCallsPerModel, CHECKER_MODEL, directSolutionCallsPerModel, IS_ONLY_ONE_OUTPUT_VALID_MODEL, LLM_MODELS, postAttackVectorSolutionCallsPerModel, postSyntheticTestCallsPerModel, solutionLanguagePerModel, SPLIT_INPUT_MODEL, syntheticTestCallsPerModel } from '../config/config';
+import { DeltaListener, Model, RunUsage } from '../types/models';
+import { BuildDivergence, Counterexample, DroppedTest, PerfProbeResult, SyntheticTest, TestStatus, UBCheckResult } from '../types/tests';
+import { Verdict } from '../types/execution';
+import { Lane, schedule } from './scheduler';
 
 type ApiEndpoint = 
+  | 'compile_error_recovery'
   | 'runtime_error_recovery'
   | 'time_limit_recovery'
   | 'wrong_answer_recovery'
+  | 'output_format_recovery'
   | 'validate_solution'
   | 'write_solution'
   | 'get_attack_vector'
   | 'is_only_one_output_valid'
+  | 'synthesize_checker'
   | 'run_all_tests'
-  | 'get_synthetic_tests';
+  | 'stress_test'
+  | 'perf_probe'
+  | 'get_synthetic_tests'
+  | 'split_input';
 
 const MAX_DEPTH = 4;
 
+// A long answer arrives in thousands of deltas, the log row is redrawn at most this often while it is written
+const LIVE_OUTPUT_INTERVAL_MS = 250;
+
+// When the scheduler is saturated, higher priority requests run first: the closer to a final answer, the higher
+const ENDPOINT_PRIORITIES: Record<ApiEndpoint, number> = {
+  run_all_tests: 7,
+  perf_probe: 6,
+  stress_test: 5,
+  validate_solution: 4,
+  compile_error_recovery: 3,
+  runtime_error_recovery: 3,
+  time_limit_recovery: 3,
+  wrong_answer_recovery: 3,
+  output_format_recovery: 3,
+  write_solution: 2,
+  is_only_one_output_valid: 1,
+  synthesize_checker: 1,
+  split_input: 1,
+  get_attack_vector: 0,
+  get_synthetic_tests: 0,
+};
+
+// Endpoints called without a model use the one set in the config on the server
+const SERVER_MODELS: Partial<Record<ApiEndpoint, Model>> = {
+  is_only_one_output_valid: IS_ONLY_ONE_OUTPUT_VALID_MODEL,
+  split_input: SPLIT_INPUT_MODEL,
+  synthesize_checker: CHECKER_MODEL,
+};
+
 type ValidateResponse = {
   is_valid: boolean;
+  verdict?: Verdict;
   is_time_limit_exceeded?: boolean;
+  compile_error?: string;
   runtime_error?: string;
+  sanitizer_report?: string;
   wrong_answer?: string;
+  counterexample?: Counterexample;
+  test_statuses?: TestStatus[];
 };
 
 type RunQAResponse = {
   is_valid: boolean;
+  verdict?: Verdict;
   is_time_limit_exceeded?: boolean;
+  compile_error?: string;
   runtime_error?: string;
   wrong_answer?: string;
   improved_solution?: string;
@@ -42,14 +86,46 @@ type AttackVectorResponse = {
 
 type SyntheticTestsResponse = {
   tests: SyntheticTest[];
+  // Tests breaking the statement's constraints or format, rejected by the input validator
+  dropped?: DroppedTest[];
 };
 
 type OneOutputValidResponse = {
   is_only_one_output_valid: boolean;
 };
 
+type SynthesizeCheckerResponse = {
+  status?: 'provided' | 'ready' | 'failed';
+  corruptions_rejected?: number;
+  error?: string;
+};
+
+type SplitInputResponse = {
+  status?: 'ready' | 'failed';
+  test_cases?: number;
+  error?: string;
+};
+
+type StressTestResponse = {
+  status?: 'passed' | 'failed' | 'skipped';
+  tests_run?: number;
+  counterexample?: Counterexample;
+  verdict?: Verdict;
+  runtime_error?: string;
+  sanitizer_report?: string;
+  reason?: string;
+};
+
+type PerfProbeResponse = Partial<PerfProbeResult>;
+
 type RunAllTestsResponse = {
   success: boolean;
+  verdict?: Verdict;
+  is_time_limit_exceeded?: boolean;
+  // Set when builds with different compilers disagree, the full output is not saved then
+  ub_check?: UBCheckResult;
+  // Set when the full output is malformed (wrong number of cases, misnumbered, unlike the sample), it is not saved then
+  format_issues?: string[];
 };
 
 function generateId(): number {
@@ -61,67 +137,170 @@ export type Log = {
   depth: number;
   message: string;
   status: 'loading' | 'success' | 'error' | 'done';
+  verdict?: Verdict;
+  // What the LLM has written so far for this row, set once its request starts
+  live_output?: string;
   sub_tasks?: Log[];
 };
 
+// The row an LLM request streams its answer into
+type LiveLog = {
+  log: Log;
+  onLogUpdate: (log: Log) => void;
+};
+
 export type ProcessResult = {
   is_only_one_output_valid: boolean;
   attack_vector?: string;
 };
 
+export type RequestCounts = {
+  llm_running: number;
+  llm_queued: number;
+  compute_running: number;
+  compute_queued: number;
+};
+
+type RequestCountsListener = (problem: string, counts: RequestCounts) => void;
+
+// Called with the LLM usage of the problem's current run whenever an LLM request finishes, null before the first run
+type UsageListener = (problem: string, usage: RunUsage | null) => void;
+
 export class ProblemService {
-  private static problemRequests: Record<string, { llm: number; compute: number }> = {};
-  private static listeners: ((problem: string, llm_count: number, compute_count: number) => void)[] = [];
+  private static problemRequests: Record<string, RequestCounts> = {};
+  private static listeners: RequestCountsListener[] = [];
+  private static usageListeners: UsageListener[] = [];
   private static checkIfOnlyOneOutputValidInProgress: Set<string> = new Set();
+  private static splitInputInProgress: Set<string> = new Set();
+  private static liveRequests: Map<number, AbortController> = new Map();
 
-  static addListener(listener: (problem: string, llm_count: number, compute_count: number) => void) {
+  static addListener(listener: RequestCountsListener) {
     this.listeners.push(listener);
   }
 
-  static removeListener(listener: (problem: string, llm_count: number, compute_count: number) => void) {
+  static removeListener(listener: RequestCountsListener) {
     this.listeners = this.listeners.filter(l => l !== listener);
   }
 
-  private static updateActiveLLMRequests(delta: number, problem: string) {
-    if (!this.problemRequests[problem]) {
-      this.problemRequests[problem] = { llm: 0, compute: 0 };
+  static addUsageListener(listener: UsageListener) {
+    this.usageListeners.push(listener);
+  }
+
+  static removeUsageListener(listener: UsageListener) {
+    this.usageListeners = this.usageListeners.filter(l => l !== listener);
+  }
+
+  // The server accounts the tokens of every LLM call in _state/usage.json, this reads the totals of the current run
+  static async refreshUsage(problem: string, method: 'GET' | 'POST' = 'GET') {
+    try {
+      const response = await fetch(`/api/usage?problem=${problem}`, { method });
+      const { usage } = await response.json() as { usage: RunUsage | null };
+      this.usageListeners.forEach(listener => {
+        listener(problem, usage);
+      });
+    } catch (error) {
+      console.error('Error reading the LLM usage:', error);
     }
-    this.problemRequests[problem].llm += delta;
-    this.listeners.forEach(listener => {
-      listener(problem, this.problemRequests[problem].llm, this.problemRequests[problem].compute);
-    });
   }
 
-  private static updateActiveComputeRequests(delta: number, problem: string) {
+  // Aborts the request streaming into the log, the row ends in an error and nothing follows from it
+  static stopLog(logId: number) {
+    this.liveRequests.get(logId)?.abort();
+  }
+
+  private static updateRequests(problem: string, counter: keyof RequestCounts, delta: number) {
     if (!this.problemRequests[problem]) {
-      this.problemRequests[problem] = { llm: 0, compute: 0 };
+      this.problemRequests[problem] = { llm_running: 0, llm_queued: 0, compute_running: 0, compute_queued: 0 };
     }
-    this.problemRequests[problem].compute += delta;
+    this.problemRequests[problem][counter] += delta;
+    const counts = { ...this.problemRequests[problem] };
     this.listeners.forEach(listener => {
-      listener(problem, this.problemRequests[problem].llm, this.problemRequests[problem].compute);
+      listener(problem, counts);
     });
   }
 
   private static isLLMRequest(endpoint: ApiEndpoint): boolean {
-    return !['run_all_tests', 'validate_solution'].includes(endpoint);
+    return !['run_all_tests', 'validate_solution', 'stress_test', 'perf_probe'].includes(endpoint);
   }
 
-  private static isComputeRequest(endpoint: ApiEndpoint): boolean {
-    return !this.isLLMRequest(endpoint);
+  private static laneOf(endpoint: ApiEndpoint, model?: Model): Lane {
+    if (!this.isLLMRequest(endpoint)) {
+      return 'compute';
+    }
+    const name = model ?? SERVER_MODELS[endpoint] ?? IS_ONLY_ONE_OUTPUT_VALID_MODEL;
+    if (!LLM_MODELS[name]) {
+      throw new Error(`Unknown model ${name}, add it to LLM_MODELS in config.ts`);
+    }
+    return LLM_MODELS[name].provider;
   }
 
+  // Waits for a free slot in the scheduler, then calls the endpoint. With `live`, the answer is streamed into the log row.
   private static async fetchApi<T>(
     endpoint: ApiEndpoint,
     problemName: string,
     model?: Model,
     postData?: Record<string, any>,
+    live?: LiveLog,
   ): Promise<T> {
-    if (this.isLLMRequest(endpoint)) {
-      this.updateActiveLLMRequests(1, problemName);
-    }
-    if (this.isComputeRequest(endpoint)) {
-      this.updateActiveComputeRequests(1, problemName);
+    const kind = this.isLLMRequest(endpoint) ? 'llm' : 'compute';
+    const lane = this.laneOf(endpoint, model);
+    this.updateRequests(problemName, `${kind}_queued`, 1);
+    return schedule(lane, ENDPOINT_PRIORITIES[endpoint], async () => {
+      try {
+        return live
+          ? await this.streamApi<T>(endpoint, problemName, model, postData, live)
+          : await this.callApi<T>(endpoint, problemName, model, postData);
+      } finally {
+        this.updateRequests(problemName, `${kind}_running`, -1);
+        if (kind === 'llm') {
+          this.refreshUsage(problemName);
+        }
+      }
+    }, () => {
+      this.updateRequests(problemName, `${kind}_queued`, -1);
+      this.updateRequests(problemName, `${kind}_running`, 1);
+    });
+  }
+
+  // Appends the answer to `live_output` of the row as it is written, the row can be stopped meanwhile.
+  // A retried LLM call replaces what the failed attempt wrote.
+  private static async streamApi<T>(
+    endpoint: ApiEndpoint,
+    problemName: string,
+    model: Model | undefined,
+    postData: Record<string, unknown> | undefined,
+    { log, onLogUpdate }: LiveLog,
+  ): Promise<T> {
+    const controller = new AbortController();
+    this.liveRequests.set(log.id, controller);
+    log.live_output = '';
+    onLogUpdate(log);
+
+    let redraw: ReturnType<typeof setTimeout> | null = null;
+    const onDelta: DeltaListener = (delta, restart) => {
+      log.live_output = restart ? delta : log.live_output + delta;
+      redraw ??= setTimeout(() => {
+        redraw = null;
+        onLogUpdate(log);
+      }, LIVE_OUTPUT_INTERVAL_MS);
+    };
+    try {
+      return await this.fetchProgressiveAPI<T>(endpoint, problemName, model, postData, onDelta, controller.signal);
+    } finally {
+      // The caller redraws the row with its final status
+      if (redraw) {
+        clearTimeout(redraw);
+      }
+      this.liveRequests.delete(log.id);
     }
+  }
+
+  private static async callApi<T>(
+    endpoint: ApiEndpoint,
+    problemName: string,
+    model?: Model,
+    postData?: Record<string, unknown>,
+  ): Promise<T> {
     try {
       const baseUrl = `/api/${endpoint}?problem=${problemName}`;
       const url = model ? `${baseUrl}&model=${model}` : baseUrl;
@@ -146,27 +325,23 @@ export class ProblemService {
       }
     } catch (error) {
       console.error('Error in fetchApi:', error);
-      return {success: false, error: error} as T;
-    } finally {
-      if (this.isLLMRequest(endpoint)) {
-        this.updateActiveLLMRequests(-1, problemName);
-      }
-      if (this.isComputeRequest(endpoint)) {
-        this.updateActiveComputeRequests(-1, problemName);
-      }
+      return { success: false, error: error instanceof Error ? error.message : String(error) } as T;
     }
   }
 
+  // Calls the endpoint with ?stream=1: it answers with a {"delta"} line for every piece of the LLM answer, then a
+  // {"result"} line with the same object the endpoint returns without streaming
   private static async fetchProgressiveAPI<T>(
     endpoint: ApiEndpoint,
     problemName: string,
     model?: Model,
-    postData?: Record<string, any>,
-    onProgress?: (data: any) => void,
-  ): Promise<void> {
-    const baseUrl = `/api/${endpoint}?problem=${problemName}`;
+    postData?: Record<string, unknown>,
+    onDelta?: DeltaListener,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const baseUrl = `/api/${endpoint}?problem=${problemName}&stream=1`;
     const url = model ? `${baseUrl}&model=${model}` : baseUrl;
-    
+
     const options: RequestInit = {
       method: postData ? 'POST' : 'GET',
       headers: postData
@@ -175,18 +350,30 @@ export class ProblemService {
           }
         : undefined,
       body: postData ? JSON.stringify(postData) : undefined,
+      signal,
+    };
+
+    let result: T | undefined;
+    // Errors answered before the stream starts (a missing parameter, a crash) are a plain body
+    const processLine = (line: string) => {
+      try {
+        const message = JSON.parse(line);
+        if (typeof message.delta === 'string') {
+          onDelta?.(message.delta, message.restart === true);
+        } else {
+          result = 'result' in message ? message.result : message;
+        }
+      } catch {
+        result = { success: false, error: line } as T;
+      }
     };
 
-    let response;
     try {
-      response = await fetch(url, options);
-    } catch (error) {
-      console.log(error)
-      onProgress?.({success: false})
-      return;
-    }
+      const response = await fetch(url, options);
+      if (!response.body) {
+        return { success: false, error: `Empty response (${response.status})` } as T;
+      }
 
-    if (response.body) {
       const reader = response.body.getReader();
       const decoder = new TextDecoder('utf-8');
       let done = false;
@@ -204,7 +391,7 @@ export class ProblemService {
           for (let i = 0; i < lines.length - 1; i++) {
             const line = lines[i].trim();
             if (line) {
-              onProgress?.(line);
+              processLine(line);
             }
           }
           accumulatedData = lines[lines.length - 1];
@@ -212,14 +399,17 @@ export class ProblemService {
       }
       // Process any remaining data
       if (accumulatedData.trim()) {
-        onProgress?.(accumulatedData.trim());
+        processLine(accumulatedData.trim());
       }
-    } else {
-      const data = await response.json();
-      onProgress?.(data);
-      return data;
+    } catch (error) {
+      if (signal?.aborted) {
+        return { success: false, error: 'Stopped' } as T;
+      }
+      console.error('Error in fetchProgressiveAPI:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) } as T;
     }
-    
+
+    return result ?? { success: false, error: 'The stream ended without a result' } as T;
   }
 
   private static async checkIfOnlyOneOutputValid(problemName: string, onLogUpdate: (log: Log) => void): Promise<void> {
@@ -247,6 +437,69 @@ export class ProblemService {
     };
     log.sub_tasks = [subLog];
     onLogUpdate(log);
+
+    if (result.is_only_one_output_valid === false) {
+      await this.synthesizeChecker(problemName, log, onLogUpdate);
+    }
+  }
+
+  // Outputs of problems with multiple valid answers can't be compared as strings, a checker program judges them instead of the LLM
+  private static async synthesizeChecker(problemName: string, parentLog: Log, onLogUpdate: (log: Log) => void): Promise<void> {
+    const log: Log = {
+      id: generateId(),
+      depth: parentLog.depth + 1,
+      message: '🧑‍⚖️ Writing an output checker...',
+      status: 'loading'
+    };
+    parentLog.sub_tasks = [...(parentLog.sub_tasks || []), log];
+    onLogUpdate(parentLog);
+
+    const result = await this.fetchApi<SynthesizeCheckerResponse>('synthesize_checker', problemName);
+
+    log.status = result?.status === 'failed' || !result?.status ? 'error' : 'done';
+    const subLog: Log = {
+      id: generateId(),
+      depth: log.depth + 1,
+      message: result?.status === 'provided'
+        ? '📜 Using checker.cpp from the problem'
+        : result?.status === 'ready'
+          ? `✅ Checker accepts the sample and rejects ${result.corruptions_rejected} corrupted outputs`
+          : '🤷 No reliable checker, the LLM judges outputs',
+      status: 'done'
+    };
+    log.sub_tasks = [subLog];
+    onLogUpdate(parentLog);
+  }
+
+  // Splits the full input into test cases for parallel full runs and QA edge cases, solutions don't wait for it
+  private static async splitInput(problemName: string, onLogUpdate: (log: Log) => void): Promise<void> {
+    if (this.splitInputInProgress.has(problemName)) {
+      return;
+    }
+    this.splitInputInProgress.add(problemName);
+
+    const log: Log = {
+      id: generateId(),
+      depth: 0,
+      message: '✂️ Splitting full input into test cases...',
+      status: 'loading'
+    };
+    onLogUpdate(log);
+
+    const result = await this.fetchApi<SplitInputResponse>('split_input', problemName);
+    this.splitInputInProgress.delete(problemName);
+
+    log.status = result?.status === 'ready' ? 'done' : 'error';
+    const subLog: Log = {
+      id: generateId(),
+      depth: log.depth + 1,
+      message: result?.status === 'ready'
+        ? `🧩 Split into ${result.test_cases} test cases`
+        : '🧱 Could not split, the full input runs as a whole',
+      status: 'done'
+    };
+    log.sub_tasks = [subLog];
+    onLogUpdate(log);
   }
 
   private static async getAttackVector(problemName: string, model: Model, parentLog: Log | null, onLogUpdate: (log: Log) => void, tests: SyntheticTest[] = []): Promise<void> {
@@ -264,7 +517,13 @@ export class ProblemService {
     
     const result = await this.fetchApi<AttackVectorResponse>('get_attack_vector', problemName, model, {
       tests
-    });
+    }, { log, onLogUpdate });
+
+    if (!result.attack_vector) {
+      log.status = 'error';
+      onLogUpdate(log);
+      return;
+    }
 
     Object.entries(postAttackVectorSolutionCallsPerModel).forEach(([model, count]) => {
       for (let i = 0; i < count; i++) {
@@ -286,6 +545,15 @@ export class ProblemService {
     
     const result = await this.fetchApi<SyntheticTestsResponse>('get_synthetic_tests', problemName, model);
 
+    if (result?.dropped?.length) {
+      log.sub_tasks = result.dropped.map(({ reason }) => ({
+        id: generateId(),
+        depth: log.depth + 1,
+        message: `🚮 Dropped invalid test: ${reason.split('\n')[0]}`,
+        status: 'error'
+      }));
+    }
+
     if (!result || !result.tests || result.tests.length === 0) {
       log.status = 'error';
       onLogUpdate(log);
@@ -314,7 +582,7 @@ export class ProblemService {
     const log: Log = {
       id: generateId(),
       depth: 0,
-      message: `🧠 Writing code: ${model}`,
+      message: `🧠 Writing code: ${model} (${solutionLanguagePerModel[model]})`,
       status: 'loading'
     }
     if (parentLog) {
@@ -324,10 +592,11 @@ export class ProblemService {
       onLogUpdate(log);
     }
     const result = await this.fetchApi<SolutionResponse>('write_solution', problemName, model, {
+      language: solutionLanguagePerModel[model],
       attack_vector,
       tags,
       tests
-    });
+    }, { log, onLogUpdate });
 
     log.status = result.solution ? 'done' : 'error';
     onLogUpdate(log);
@@ -356,31 +625,13 @@ export class ProblemService {
     tags?: string[],
     tests?: SyntheticTest[]
   ): Promise<void> {
-    const timer = setTimeout(() => {
-      if (parentLog.depth >= MAX_DEPTH) {
-        return;
-      }
-      const taRecoveryLog: Log = {
-        id: generateId(),
-        depth: parentLog.depth + 1,
-        message: '⏱️ Time limit recovery...',
-        status: 'loading'
-      }
-      parentLog.sub_tasks = [...(parentLog.sub_tasks || []), taRecoveryLog]
-      onLogUpdate(parentLog);
-      this.timeLimitRecovery(problemName, model, solution, taRecoveryLog, parentLog, onLogUpdate, attack_vector, tags);
-    }, 15000);
-    let result;
-    try {
-      result = await this.fetchApi<ValidateResponse>('validate_solution', problemName, undefined, {
-        solution,
-        attack_vector,
-        tags,
-        tests
-      });
-    } finally {
-      clearTimeout(timer);
-    }
+    const result = await this.fetchApi<ValidateResponse>('validate_solution', problemName, undefined, {
+      language: solutionLanguagePerModel[model],
+      solution,
+      attack_vector,
+      tags,
+      tests
+    });
 
     log.status = 'done';
 
@@ -388,21 +639,25 @@ export class ProblemService {
       id: generateId(),
       depth: log.depth + 1,
       message: result.is_valid ? '👌 Validation passed' : '😞 Validation failed',
-      status: 'done'
+      status: 'done',
+      verdict: result.verdict
     };
     log.sub_tasks = [...(log.sub_tasks || []), statusLog]
+    if (tests?.length && result.test_statuses) {
+      log.sub_tasks = [...log.sub_tasks, this.testStatusesLog(tests, result.test_statuses, log.depth + 1)];
+    }
     onLogUpdate(log);
 
     if (result.is_valid) {
-      const runAllTestsLog: Log = {
+      const stressTestLog: Log = {
         id: generateId(),
         depth: log.depth + 1,
-        message: '🚀 Running full test suite...',
+        message: '🧪 Stress testing against a brute force...',
         status: 'loading'
       };
-      log.sub_tasks = [...(log.sub_tasks || []), runAllTestsLog]
+      log.sub_tasks = [...(log.sub_tasks || []), stressTestLog]
       onLogUpdate(log);
-      this.runAllTests(problemName, model, solution, runAllTestsLog, parentLog, onLogUpdate, tests ? tests.length > 0 : false, attack_vector, tags, tests);
+      this.stressTest(problemName, model, solution, stressTestLog, parentLog, onLogUpdate, attack_vector, tags, tests);
       return;
     }
 
@@ -421,7 +676,20 @@ export class ProblemService {
       return;
     }
 
-    if (result.is_time_limit_exceeded) { // will never happen - no need to close the timer
+    if (result.verdict === 'CE' && result.compile_error) {
+      const compileErrorRecoveryLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '🛠️ Compile Error: recovering...',
+        status: 'loading'
+      };
+      log = {
+        ...log,
+        sub_tasks: [...(log.sub_tasks || []), compileErrorRecoveryLog]
+      }
+      onLogUpdate(log);
+      await this.compileErrorRecovery(problemName, model, solution, result.compile_error, compileErrorRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+    } else if (result.is_time_limit_exceeded) {
       const timeLimitRecoveryLog: Log = {
         id: generateId(),
         depth: log.depth + 1,
@@ -446,8 +714,8 @@ export class ProblemService {
         sub_tasks: [...(log.sub_tasks || []), runtimeErrorRecoveryLog]
       }
       onLogUpdate(log);
-      await this.runtimeErrorRecovery(problemName, model, solution, result.runtime_error, runtimeErrorRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
-    } else if (result.wrong_answer && (!tests || tests.length === 0)) {
+      await this.runtimeErrorRecovery(problemName, model, solution, result.runtime_error, result.sanitizer_report, runtimeErrorRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+    } else if (result.wrong_answer) {
       const wrongAnswerRecoveryLog: Log = {
         id: generateId(),
         depth: log.depth + 1,
@@ -459,10 +727,205 @@ export class ProblemService {
         sub_tasks: [...(log.sub_tasks || []), wrongAnswerRecoveryLog]
       }
       onLogUpdate(log);
-      await this.wrongAnswerRecovery(problemName, model, solution, result.wrong_answer, wrongAnswerRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+      await this.wrongAnswerRecovery(problemName, model, solution, result.wrong_answer, wrongAnswerRecoveryLog, log, onLogUpdate, attack_vector, tags, tests, result.counterexample);
     }
   }
 
+  // Only confirmed synthetic tests fail a solution, the disputed ones are listed so a wrong expected output is easy to spot
+  private static testStatusesLog(tests: SyntheticTest[], statuses: TestStatus[], depth: number): Log {
+    const count = (status: TestStatus) => statuses.filter(s => s === status).length;
+    return {
+      id: generateId(),
+      depth,
+      message: `🧾 Synthetic tests: ${count('confirmed')} confirmed, ${count('disputed')} disputed, ${count('unverified')} unverified`,
+      status: 'done',
+      sub_tasks: tests
+        .filter((_, i) => statuses[i] === 'disputed')
+        .map(test => ({
+          id: generateId(),
+          depth: depth + 1,
+          message: `⚖️ Disputed, expected "${test.output}" for:\n${test.input}`,
+          status: 'done'
+        }))
+    };
+  }
+
+  // Runs a solution that passed validation on small random inputs against a brute force.
+  // A mismatch goes to wrong answer recovery with the failing input, a failed run to the recovery of its verdict like in validation,
+  // otherwise the solution goes on to the full run.
+  private static async stressTest(
+    problemName: string,
+    model: Model,
+    solution: string,
+    log: Log,
+    parentLog: Log,
+    onLogUpdate: (log: Log) => void,
+    attack_vector?: string,
+    tags?: string[],
+    tests?: SyntheticTest[]
+  ): Promise<void> {
+    const result = await this.fetchApi<StressTestResponse>('stress_test', problemName, undefined, {
+      language: solutionLanguagePerModel[model],
+      solution
+    });
+
+    log.status = 'done';
+
+    const failed = result.status === 'failed' && result.counterexample;
+    const verdict = result.verdict || 'WA';
+    const statusLog: Log = {
+      id: generateId(),
+      depth: log.depth + 1,
+      message: failed
+        ? verdict === 'WA'
+          ? `💥 Brute force disagrees on test ${result.tests_run}`
+          : `💥 ${verdict} on test ${result.tests_run}`
+        : result.status === 'passed'
+          ? `💪 Stress test passed (${result.tests_run} tests)`
+          : `🤷 Stress test skipped${result.reason ? `: ${result.reason}` : ''}`,
+      status: 'done',
+      verdict: failed ? verdict : undefined
+    };
+    log.sub_tasks = [...(log.sub_tasks || []), statusLog]
+    onLogUpdate(log);
+
+    if (!failed) {
+      const perfProbeLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '⏱️ Timing on max-size inputs...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), perfProbeLog]
+      onLogUpdate(log);
+      this.perfProbe(problemName, model, solution, perfProbeLog, parentLog, onLogUpdate, attack_vector, tags, tests);
+      return;
+    }
+
+    if (log.depth >= MAX_DEPTH) {
+      const depthLimitLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '🤿 Depth limit reached...',
+        status: 'error'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), depthLimitLog]
+      onLogUpdate(log);
+      return;
+    }
+
+    if (verdict === 'TLE') {
+      const timeLimitRecoveryLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '⏱️ Time limit: recovering...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), timeLimitRecoveryLog]
+      onLogUpdate(log);
+      await this.timeLimitRecovery(problemName, model, solution, timeLimitRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+      return;
+    }
+
+    if (result.runtime_error) {
+      const runtimeErrorRecoveryLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '⚠️ Runtime Error: recovering...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), runtimeErrorRecoveryLog]
+      onLogUpdate(log);
+      await this.runtimeErrorRecovery(problemName, model, solution, result.runtime_error, result.sanitizer_report, runtimeErrorRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+      return;
+    }
+
+    const counterexample = result.counterexample!;
+    const wrongAnswerRecoveryLog: Log = {
+      id: generateId(),
+      depth: log.depth + 1,
+      message: '🥅 Counterexample: recovering...',
+      status: 'loading'
+    };
+    log.sub_tasks = [...(log.sub_tasks || []), wrongAnswerRecoveryLog]
+    onLogUpdate(log);
+    await this.wrongAnswerRecovery(problemName, model, solution, counterexample.actual_output, wrongAnswerRecoveryLog, log, onLogUpdate, attack_vector, tags, tests, counterexample);
+  }
+
+  // Times a solution on worst-case inputs before the full run, so a slow one goes to time limit recovery
+  // with the measured timings instead of waiting out the full time limit
+  private static async perfProbe(
+    problemName: string,
+    model: Model,
+    solution: string,
+    log: Log,
+    parentLog: Log,
+    onLogUpdate: (log: Log) => void,
+    attack_vector?: string,
+    tags?: string[],
+    tests?: SyntheticTest[]
+  ): Promise<void> {
+    const result = await this.fetchApi<PerfProbeResponse>('perf_probe', problemName, undefined, {
+      language: solutionLanguagePerModel[model],
+      solution
+    });
+
+    log.status = 'done';
+
+    const slow = result.status === 'slow';
+    const estimate = result.estimated_full_ms !== undefined && result.full_time_limit_ms !== undefined
+      ? ` (~${(result.estimated_full_ms / 1000).toFixed(1)}s of ${result.full_time_limit_ms / 1000}s on the full input)`
+      : '';
+    const statusLog: Log = {
+      id: generateId(),
+      depth: log.depth + 1,
+      message: slow
+        ? `🐢 Too slow on max-size inputs${estimate}`
+        : result.status === 'fast'
+          ? `⚡ Fast enough${estimate}`
+          : `🤷 Timing skipped${result.reason ? `: ${result.reason}` : ''}`,
+      status: 'done',
+      verdict: slow ? 'TLE' : undefined
+    };
+    log.sub_tasks = [...(log.sub_tasks || []), statusLog]
+    onLogUpdate(log);
+
+    if (!slow) {
+      const runAllTestsLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '🚀 Running full test suite...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), runAllTestsLog]
+      onLogUpdate(log);
+      this.runAllTests(problemName, model, solution, runAllTestsLog, parentLog, onLogUpdate, tests ? tests.length > 0 : false, attack_vector, tags, tests);
+      return;
+    }
+
+    if (log.depth >= MAX_DEPTH) {
+      const depthLimitLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '🤿 Depth limit reached...',
+        status: 'error'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), depthLimitLog]
+      onLogUpdate(log);
+      return;
+    }
+
+    const timeLimitRecoveryLog: Log = {
+      id: generateId(),
+      depth: log.depth + 1,
+      message: '⏱️ Too slow: recovering...',
+      status: 'loading'
+    };
+    log.sub_tasks = [...(log.sub_tasks || []), timeLimitRecoveryLog]
+    onLogUpdate(log);
+    await this.timeLimitRecovery(problemName, model, solution, timeLimitRecoveryLog, log, onLogUpdate, attack_vector, tags, tests, result as PerfProbeResult);
+  }
+
   private static async wrongAnswerRecovery(
     problemName: string,
     model: Model,
@@ -473,15 +936,18 @@ export class ProblemService {
     onLogUpdate: (log: Log) => void,
     attack_vector?: string,
     tags?: string[],
-    tests?: SyntheticTest[]
+    tests?: SyntheticTest[],
+    counterexample?: Counterexample
   ): Promise<void> {
     const result = await this.fetchApi<SolutionResponse>('wrong_answer_recovery', problemName, model, {
+      language: solutionLanguagePerModel[model],
       solution,
       wrong_answer,
+      counterexample,
       attack_vector,
       tags,
       tests
-    });
+    }, { log, onLogUpdate });
 
     log.status = result.solution ? 'done' : 'error';
     onLogUpdate(log);
@@ -508,14 +974,17 @@ export class ProblemService {
     onLogUpdate: (log: Log) => void,
     attack_vector?: string,
     tags?: string[],
-    tests?: SyntheticTest[]
+    tests?: SyntheticTest[],
+    timings?: PerfProbeResult
   ): Promise<void> {
     const result = await this.fetchApi<SolutionResponse>('time_limit_recovery', problemName, model, {
+      language: solutionLanguagePerModel[model],
       solution,
+      timings,
       attack_vector,
       tags,
       tests
-    });
+    }, { log, onLogUpdate });
 
     log.status = result.solution ? 'done' : 'error';
     onLogUpdate(log);
@@ -533,25 +1002,103 @@ export class ProblemService {
     }
   }
 
+  private static async outputFormatRecovery(
+    problemName: string,
+    model: Model,
+    solution: string,
+    issues: string[],
+    log: Log,
+    parentLog: Log,
+    onLogUpdate: (log: Log) => void,
+    attack_vector?: string,
+    tags?: string[],
+    tests?: SyntheticTest[]
+  ): Promise<void> {
+    const result = await this.fetchApi<SolutionResponse>('output_format_recovery', problemName, model, {
+      language: solutionLanguagePerModel[model],
+      solution,
+      issues,
+      attack_vector,
+      tags
+    }, { log, onLogUpdate });
+
+    log.status = result.solution ? 'done' : 'error';
+    onLogUpdate(log);
+
+    if (result.solution) {
+      const validationLog: Log = {
+        id: generateId(),
+        depth: parentLog.depth + 1,
+        message: '👀 Validating recovered solution...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), validationLog]
+      onLogUpdate(log);
+      await this.validateSolution(problemName, model, result.solution, validationLog, log, onLogUpdate, attack_vector, tags, tests);
+    }
+  }
+
+  private static async compileErrorRecovery(
+    problemName: string,
+    model: Model,
+    solution: string,
+    compile_error: string,
+    log: Log,
+    parentLog: Log,
+    onLogUpdate: (log: Log) => void,
+    attack_vector?: string,
+    tags?: string[],
+    tests?: SyntheticTest[]
+  ): Promise<void> {
+    const result = await this.fetchApi<SolutionResponse>('compile_error_recovery', problemName, model, {
+      language: solutionLanguagePerModel[model],
+      solution,
+      compile_error,
+      attack_vector,
+      tags,
+      tests
+    }, { log, onLogUpdate });
+
+    log.status = result.solution ? 'done' : 'error';
+    onLogUpdate(log);
+
+    if (result.solution) {
+      const validationLog: Log = {
+        id: generateId(),
+        depth: parentLog.depth + 1,
+        message: '👀 Validating solution...',
+        status: 'loading'
+      };
+      parentLog.sub_tasks = [...(parentLog.sub_tasks || []), validationLog]
+      onLogUpdate(parentLog);
+      await this.validateSolution(problemName, model, result.solution, validationLog, parentLog, onLogUpdate, attack_vector, tags, tests);
+    }
+  }
+
   private static async runtimeErrorRecovery(
     problemName: string,
     model: Model,
     solution: string,
     runtime_error: string,
+    sanitizer_report: string | undefined,
     log: Log,
     parentLog: Log,
     onLogUpdate: (log: Log) => void,
     attack_vector?: string, 
     tags?: string[],
-    tests?: SyntheticTest[]
+    tests?: SyntheticTest[],
+    divergences?: BuildDivergence[]
   ): Promise<void> {
     const result = await this.fetchApi<SolutionResponse>('runtime_error_recovery', problemName, model, {
+      language: solutionLanguagePerModel[model],
       solution,
       error: runtime_error,
+      sanitizer_report,
+      divergences,
       attack_vector,
       tags,
       tests
-    });
+    }, { log, onLogUpdate });
 
     log.status = result.solution ? 'done' : 'error';
     onLogUpdate(log);
@@ -581,39 +1128,84 @@ export class ProblemService {
     tags?: string[],
     tests?: SyntheticTest[]
   ): Promise<void> {
-    
-    const timer = setTimeout(async () => {
+    const result = await this.fetchApi<RunAllTestsResponse>('run_all_tests', problemName, undefined, {
+      language: solutionLanguagePerModel[model],
+      solution,
+      qa_validated: qaValidated
+    });
+    log.status = result?.success ? 'success' : 'error';
+    log.verdict = result?.verdict;
+    onLogUpdate(log);
+
+    if (result?.is_time_limit_exceeded && log.depth < MAX_DEPTH) {
+      const timeLimitRecoveryLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '⏱️ Time limit on full input: recovering...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), timeLimitRecoveryLog]
+      onLogUpdate(log);
+      await this.timeLimitRecovery(problemName, model, solution, timeLimitRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+    }
+
+    if (result?.format_issues?.length) {
+      const formatLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: `📐 Malformed full output: ${result.format_issues[0]}`,
+        status: 'error'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), formatLog]
+      onLogUpdate(log);
       if (log.depth >= MAX_DEPTH) {
         return;
       }
-      
-      const taRecoveryLog: Log = {
+
+      const outputFormatRecoveryLog: Log = {
         id: generateId(),
         depth: log.depth + 1,
-        message: '⏱️ Time limit recovery...',
+        message: '📐 Output format: recovering...',
         status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), outputFormatRecoveryLog]
+      onLogUpdate(log);
+      await this.outputFormatRecovery(problemName, model, solution, result.format_issues, outputFormatRecoveryLog, log, onLogUpdate, attack_vector, tags, tests);
+    }
+
+    const ubCheck = result?.ub_check;
+    if (ubCheck?.status === 'diverged' && ubCheck.divergences) {
+      const divergenceLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: `🎲 Builds disagree on ${ubCheck.divergences.length} input(s) (${ubCheck.builds.join(', ')}): likely undefined behavior`,
+        status: 'error',
+        verdict: 'RE'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), divergenceLog]
+      onLogUpdate(log);
+      if (log.depth >= MAX_DEPTH) {
+        return;
       }
-      parentLog.sub_tasks = [...(parentLog.sub_tasks || []), taRecoveryLog]
-      onLogUpdate(parentLog);
-      
-      this.timeLimitRecovery(problemName, model, solution, taRecoveryLog, parentLog, onLogUpdate, attack_vector, tags, tests);
-    }, 10000);
-    
-    let result;
-    try {
-      result = await this.fetchApi<RunAllTestsResponse>('run_all_tests', problemName, undefined, {
-        solution,
-        qa_validated: qaValidated
-      });
-    } finally {
-      clearTimeout(timer);
+
+      const runtimeErrorRecoveryLog: Log = {
+        id: generateId(),
+        depth: log.depth + 1,
+        message: '⚠️ Undefined behavior: recovering...',
+        status: 'loading'
+      };
+      log.sub_tasks = [...(log.sub_tasks || []), runtimeErrorRecoveryLog]
+      onLogUpdate(log);
+      const error = `The output depends on the compiler and optimization level (${ubCheck.builds.join(', ')}), the code likely has undefined behavior`;
+      await this.runtimeErrorRecovery(problemName, model, solution, error, undefined, runtimeErrorRecoveryLog, log, onLogUpdate, attack_vector, tags, tests, ubCheck.divergences);
     }
-    log.status = result?.success ? 'success' : 'error';
-    onLogUpdate(log);
   }
 
   static async startProcess(problemName: string, onLogUpdate: (log: Log) => void) {
+    // Every "Let's go!" is accounted as a new run
+    await this.refreshUsage(problemName, 'POST');
     this.checkIfOnlyOneOutputValid(problemName, onLogUpdate)
+    this.splitInput(problemName, onLogUpdate)
 
     Object.entries(directSolutionCallsPerModel).forEach(([model, count]) => {
       for (let i = 0; i < count; i++) {
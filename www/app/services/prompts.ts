@@ -1,8 +1,35 @@
 import { RAG_resource } from '../types/rag';
 import OpenAI from "openai";
-import { SyntheticTest } from '../types/tests';
+import { BuildDivergence, PerfProbeResult, SyntheticTest } from '../types/tests';
+import { Language } from '../types/language';
+import { ProblemMetadata } from '../types/problem';
 type Message = OpenAI.Chat.ChatCompletionMessageParam;
 
+// How the solution language is described to the model, `first_line` is what the code is asked to start with
+const LANGUAGE_PROMPTS: Record<Language, { name: string; io: string; first_line: string }> = {
+  cpp: {
+    name: 'C++20',
+    io: `Use scanf/printf for read and write from the standard input/output. Always include <bits/stdc++.h> and 'using namespace std;'`,
+    first_line: '#include <stdio.h>',
+  },
+  python: {
+    name: 'Python 3',
+    io: `Read the whole input at once with sys.stdin.buffer.read() and write the output with sys.stdout.write. Only the standard library is available.
+Avoid deep recursion, or raise the limit with sys.setrecursionlimit and run the solution in a thread with a big stack.`,
+    first_line: 'import sys',
+  },
+  java: {
+    name: 'Java 17',
+    io: `Use a fast reader (DataInputStream or BufferedReader with StringTokenizer) and write the output through a PrintWriter. The public class must be named Main.`,
+    first_line: 'import java.util.*;',
+  },
+  rust: {
+    name: 'Rust (edition 2021)',
+    io: `Read the whole standard input into a String, parse tokens with split_ascii_whitespace and write the output through a BufWriter over stdout. Only the standard library is available.`,
+    first_line: 'use std::io::*;',
+  },
+};
+
 function get_knowledge_list(resources: RAG_resource[]): string{
   return resources.map(resource => `${resource.id} - ${resource.title}`).join('\n');
 }
@@ -18,7 +45,15 @@ ${all_tests.join('\n\n')}
 `;
 }
 
-export function attack_vector_prompt(statement: string, sampleIn: string, sampleOut: string, resources: RAG_resource[], tests: SyntheticTest[] | null): Message[]{
+// The limits from the problem's metadata.json. The full input is what the solution has to get through in time.
+function constraints_prompt(metadata: ProblemMetadata): string{
+  return `<CONSTRAINTS>
+Time limit: ${metadata.full_time_limit_seconds} seconds
+Memory limit: ${metadata.memory_limit_mb} MB
+</CONSTRAINTS>`;
+}
+
+export function attack_vector_prompt(statement: string, sampleIn: string, sampleOut: string, resources: RAG_resource[], tests: SyntheticTest[] | null, metadata: ProblemMetadata): Message[]{
     return [
         {
             role: 'user',
@@ -36,10 +71,7 @@ ${sampleIn}
 ${sampleOut}
 </SAMPLE_OUTPUT>
 ${synthetic_tests_prompt(tests)}
-<CONSTRAINTS>
-Time limit: 200 seconds
-Memory limit: 8000 MB
-</CONSTRAINTS>
+${constraints_prompt(metadata)}
 
 At this point I don't need the code, just editorial-style verbal description of the solution.
 The student Anton will write the code based on your solution.
@@ -68,10 +100,7 @@ ${sampleIn}
 ${sampleOut}
 </SAMPLE_OUTPUT>
 ${synthetic_tests_prompt(tests)}
-<CONSTRAINTS>
-Time limit: 200 seconds
-Memory limit: 8000 MB
-</CONSTRAINTS>
+${constraints_prompt(metadata)}
 
 Please reason deeply how to solve the problem and write concise and clear verbal solution for it in codeforces editorial style.
 Don't write the code, just verbal explanation in a couple of paragraphs. Only proffessional competitive programmers will read your solution, so feel free to refer to advanced algorithms and use jargon/slang.
@@ -80,7 +109,8 @@ Don't forget to include big O notation for the time and space complexity.`
       ];
 }
 
-export function write_solution_with_attack_vector(statement: string, sampleIn: string, sampleOut: string, attackVector: string | undefined, techniques: Record<string, string> | undefined, tests: SyntheticTest[]): Message[] {
+export function write_solution_with_attack_vector(statement: string, sampleIn: string, sampleOut: string, attackVector: string | undefined, techniques: Record<string, string> | undefined, tests: SyntheticTest[], metadata: ProblemMetadata, language: Language = 'cpp'): Message[] {
+  const lang = LANGUAGE_PROMPTS[language];
   let techniques_str = "";
   if (techniques) {
     for (const [key, value] of Object.entries(techniques)) {
@@ -88,7 +118,8 @@ export function write_solution_with_attack_vector(statement: string, sampleIn: s
     }
   }
   if (techniques_str) {
-    techniques_str = `To help you, here are some potentially useful algorithms, data structures and techniques, feel free to copy-paste them into your code if needed!
+    const reuse = language === 'cpp' ? 'copy-paste them into your code' : `translate them to ${lang.name}`;
+    techniques_str = `To help you, here are some potentially useful algorithms, data structures and techniques, feel free to ${reuse} if needed!
 
 ${techniques_str}`;
   }
@@ -96,7 +127,7 @@ ${techniques_str}`;
   return [
     {
       role: 'user',
-      content: `Write codeforces style C++20 solution code for the given advanced competitive programming problem.
+      content: `Write codeforces style ${lang.name} solution code for the given advanced competitive programming problem.
 
 <PROBLEM_STATEMENT>
 ${statement}
@@ -110,10 +141,7 @@ ${sampleIn}
 ${sampleOut}
 </SAMPLE_OUTPUT>
 ${synthetic_tests_prompt(tests)}
-<CONSTRAINTS>
-Time limit: 200 seconds
-Memory limit: 8000 MB
-</CONSTRAINTS>
+${constraints_prompt(metadata)}
 
 ${techniques_str}
 
@@ -138,26 +166,24 @@ ${sampleIn}
 ${sampleOut}
 </SAMPLE_OUTPUT>
 
-<CONSTRAINTS>
-Time limit: 200 seconds
-Memory limit: 8000 MB
-</CONSTRAINTS>
+${constraints_prompt(metadata)}
 
 As you know, it's important to exactly match the output format like in the sample output.
 Keep in mind the constraints so try to come up with asymptotically fast solution.
-Use scanf/printf for read and write from the standard input/output. Always include <bits/stdc++.h> and 'using namespace std;'
+${lang.io}
 Add high level comments only to explain complex/tricky parts of the code.
 Go ahead and write the code. Do not output any text before or after the code.
-Start with a line: #include <stdio.h>`
+Start with a line: ${lang.first_line}`
     }
   ];
 }
 
-export function main_prompt(statement: string, sampleIn: string, sampleOut: string, attackVector: string | undefined, techniques: Record<string, string> | undefined, tests: SyntheticTest[]): Message[] | string {
+export function main_prompt(statement: string, sampleIn: string, sampleOut: string, attackVector: string | undefined, techniques: Record<string, string> | undefined, tests: SyntheticTest[], metadata: ProblemMetadata, language: Language = 'cpp'): Message[] | string {
       if (attackVector) {
-        return write_solution_with_attack_vector(statement, sampleIn, sampleOut, attackVector, techniques, tests);
+        return write_solution_with_attack_vector(statement, sampleIn, sampleOut, attackVector, techniques, tests, metadata, language);
       }
-      return `Write codeforces style C++20 solution code for the given advanced competitive programming problem.
+      const lang = LANGUAGE_PROMPTS[language];
+      return `Write codeforces style ${lang.name} solution code for the given advanced competitive programming problem.
 
 <PROBLEM_STATEMENT>
 ${statement}
@@ -171,33 +197,72 @@ ${sampleIn}
 ${sampleOut}
 </SAMPLE_OUTPUT>
 ${synthetic_tests_prompt(tests)}
-<CONSTRAINTS>
-Time limit: 200 seconds
-Memory limit: 8000 MB
-</CONSTRAINTS>
+${constraints_prompt(metadata)}
 
 As you know, it's important to exactly match the output format like in the sample output.
 Keep in mind the constraints so try to come up with asymptotically fast solution.
-Use scanf/printf for read and write from the standard input/output. Always include <bits/stdc++.h> and 'using namespace std;'
+${lang.io}
 Add high level comments only to explain complex/tricky parts of the code.
 Go ahead and write the code. Do not output any text before or after the code.
-Start with a line: #include <stdio.h>`;
+Start with a line: ${lang.first_line}`;
 }
 
 
-export function error_recovery_prompt(error: string): string{
+export function error_recovery_prompt(error: string, language: Language = 'cpp', sanitizerReport?: string, divergences?: BuildDivergence[]): string{
+  const sanitizerSection = sanitizerReport ? `
+I rebuilt the code with sanitizers and debug checks and reran the failing input, here is the report:
+<SANITIZER_REPORT>
+${sanitizerReport}
+</SANITIZER_REPORT>
+` : '';
+  const divergenceSection = divergences?.length ? `
+I built the code with different compilers and optimization levels, and they print different outputs on these inputs.
+Look for uninitialized variables, signed integer overflow, out of bounds accesses and missing return statements:
+${divergences.map(divergence => `<INPUT>
+${divergence.input}
+</INPUT>
+${Object.entries(divergence.outputs).map(([build, output]) => `<OUTPUT build="${build}">
+${output}
+</OUTPUT>`).join('\n')}`).join('\n')}
+` : '';
   return `Unfortunately, executing your code resulted in the following error:
 <ERROR>
 ${error}
 </ERROR>
-
+${sanitizerSection}${divergenceSection}
 Please fix the error and rewrite the code completely to pass the sample input.
 Do not output anything else besides the fully working code solution.
-Immediately start with a line: #include <stdio.h>`;
+Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
+}
+
+
+export function output_format_prompt(issues: string[], language: Language = 'cpp'): string{
+  return `Your code passed the tests, but its output on the full input is malformed:
+<FORMAT_ISSUES>
+${issues.map(issue => `- ${issue}`).join('\n')}
+</FORMAT_ISSUES>
+
+The output must have exactly one "Case #i: " answer for every test case, numbered from 1 in the order of the input and formatted like the sample output.
+Common causes are reading T or the test cases incorrectly, skipping a test case (e.g. \`continue\` or an early return before printing), a crash that is caught and ignored, and debug prints.
+Please fix the issues and rewrite the code completely.
+Do not output anything else besides the fully working code solution.
+Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
+}
+
+
+export function compile_error_prompt(diagnostics: string, language: Language = 'cpp'): string{
+  return `Unfortunately, your code does not compile. Here are the compiler diagnostics:
+<COMPILER_OUTPUT>
+${diagnostics}
+</COMPILER_OUTPUT>
+
+Please fix the compilation errors without changing the algorithm, and rewrite the code completely.
+Do not output anything else besides the fully working code solution.
+Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
 }
 
 
-export function wrong_answer_prompt(sampleIn: string, sampleOut: string, wrongAnswer: string): string{
+export function wrong_answer_prompt(sampleIn: string, sampleOut: string, wrongAnswer: string, language: Language = 'cpp'): string{
   return `Unfortunately, this code outputs wrong answer for the sample input:
 <SAMPLE_INPUT>
 ${sampleIn}
@@ -213,12 +278,51 @@ ${wrongAnswer}
 
 Please fix the bug and rewrite the code completely to pass the sample input.
 Do not output anything else besides the fully working code solution.
-Immediately start with a line: #include <stdio.h>`;
+Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
 }
 
-export function time_limit_prompt(): string{
-  return `The solution possibly is correct, but unfortunately, given the constraints, it can not finish in reasonable time.
+export function counterexample_prompt(input: string, expectedOutput: string, actualOutput: string, language: Language = 'cpp'): string{
+  return `The code passes the sample, but it fails on this small test,
+whose expected output is confirmed independently (e.g. by a slow, straightforward brute force solution):
+<FAILING_INPUT>
+${input}
+</FAILING_INPUT>
+
+<EXPECTED_OUTPUT>
+${expectedOutput}
+</EXPECTED_OUTPUT>
+
+<YOUR_OUTPUT>
+${actualOutput}
+</YOUR_OUTPUT>
+
+Trace the code on this input by hand to find the bug, then fix it and rewrite the code completely.
+Do not output anything else besides the fully working code solution.
+Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
+}
 
+// Measured timings make the request concrete, instead of a guess that the solution is slow
+function timings_section(timings?: PerfProbeResult): string {
+  if (!timings?.timings?.length) {
+    return '';
+  }
+  const runs = timings.timings.map(timing => timing.time_limit_exceeded
+    ? `- a test case of ${timing.input_bytes} bytes: did not finish in ${timing.wall_time_ms} ms`
+    : `- a test case of ${timing.input_bytes} bytes: ${timing.wall_time_ms} ms`);
+  const estimate = timings.estimated_full_ms !== undefined && timings.full_time_limit_ms !== undefined
+    ? `\nScaled to the full input, it would take about ${Math.round(timings.estimated_full_ms / 1000)} s, while the limit is ${Math.round(timings.full_time_limit_ms / 1000)} s.`
+    : '';
+  return `
+I measured it on worst-case test cases at the maximum constraints:
+<MEASURED_TIMINGS>
+${runs.join('\n')}${estimate}
+</MEASURED_TIMINGS>
+`;
+}
+
+export function time_limit_prompt(language: Language = 'cpp', timings?: PerfProbeResult): string{
+  return `The solution possibly is correct, but unfortunately, given the constraints, it can not finish in reasonable time.
+${timings_section(timings)}
 Please, think hard and try to significantly improve it's asymptotic.
 
 Just for inspiration and brainstorming, here is a list of advanced competitive programming techniques that you might want to consider:
@@ -236,10 +340,10 @@ Consider if any of these techniques could be useful for solving this problem eff
 Think if there some more advanced data structures or algorithms that can be used here (like segment tree, heap, trie, binary search, dynamic programming, etc).
 Do not output anything else besides the fully working code solution.
 
-Immediately start with a line: #include <stdio.h>`;
+Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
 }
 
-export function final_qa_prompt(edge_cases: string[]): string{
+export function final_qa_prompt(edge_cases: string[], language: Language = 'cpp'): string{
   const edgeCasesSection = edge_cases.length ? `
 For example, here are a few potential inputs, just to give you some ideas:
 
@@ -251,7 +355,7 @@ ${edge_cases.map(edge_case => edge_case.trim()).join('\n')}
   return `Wow, the solution above passes the test cases correctly!
 Before I submit it, please think really hard if you solution works correctly for all the possible edge cases.${edgeCasesSection}
 
-Please rewrite the full program for me, considering the fixes. Do not output anything else besides the code. Immediately start with a line: #include <stdio.h>`;
+Please rewrite the full program for me, considering the fixes. Do not output anything else besides the code. Immediately start with a line: ${LANGUAGE_PROMPTS[language].first_line}`;
 }
 
 export function wrong_answer_prompt_with_attack_vector(sampleIn: string, sampleOut: string, wrongAnswer: string): string{
@@ -304,6 +408,106 @@ ${separator}
 Do not output anything else besides the code. Immediately start with a line: #include <stdio.h>`;
 }
 
+export function brute_force_prompt(statement: string, sampleIn: string, sampleOut: string): string{
+  return `Look at the given codeforces-style problem statement.
+Write the simplest possible brute force solution in C++20: try all the possibilities, simulate the process literally, etc.
+It will only be run on tiny inputs, so ignore the constraints and the efficiency completely, the only goal is to be obviously correct.
+The output format must exactly follow the sample output.
+
+<PROBLEM_STATEMENT>
+${statement}
+</PROBLEM_STATEMENT>
+
+<SAMPLE_INPUT>
+${sampleIn}
+</SAMPLE_INPUT>
+
+<SAMPLE_OUTPUT>
+${sampleOut}
+</SAMPLE_OUTPUT>
+
+${LANGUAGE_PROMPTS.cpp.io}
+Do not output anything else besides the code. Immediately start with a line: ${LANGUAGE_PROMPTS.cpp.first_line}`;
+}
+
+export function input_generator_prompt(statement: string, sampleIn: string): string{
+  return `Look at the given codeforces-style problem statement.
+Write a C++20 program generating a random test input for it.
+The program reads a single integer seed from the standard input, seeds std::mt19937 with it and prints one input with T = 1.
+The test case must satisfy every constraint of the statement, but be tiny (e.g. n up to 6, values up to 10), so a brute force solution finishes instantly.
+Vary the sizes and the shapes of the test between seeds, including the smallest possible ones.
+
+<PROBLEM_STATEMENT>
+${statement}
+</PROBLEM_STATEMENT>
+
+<SAMPLE_INPUT>
+${sampleIn}
+</SAMPLE_INPUT>
+
+Do not output anything else besides the code. Immediately start with a line: ${LANGUAGE_PROMPTS.cpp.first_line}`;
+}
+
+export function checker_prompt(statement: string, sampleIn: string, sampleOut: string): string{
+  return `Look at the given codeforces-style problem statement. It accepts more than one correct output for a test.
+Write a C++20 checker program deciding if a contestant's output is correct.
+It is run as \`checker <input_file> <output_file> <answer_file>\`, where the output is the contestant's output
+and the answer is the jury's output, which is only one of the correct ones (use it e.g. for the optimal value when an optimum is asked).
+Read the files with std::ifstream. Validate everything: the "Case #k: " prefixes, the format, the constraints, and that the output really solves the test.
+Exit with code 0 if the output is correct, or print the reason to stderr and exit with code 1 if it is not.
+
+<PROBLEM_STATEMENT>
+${statement}
+</PROBLEM_STATEMENT>
+
+<SAMPLE_INPUT>
+${sampleIn}
+</SAMPLE_INPUT>
+
+<SAMPLE_OUTPUT>
+${sampleOut}
+</SAMPLE_OUTPUT>
+
+Do not output anything else besides the code. Immediately start with a line: ${LANGUAGE_PROMPTS.cpp.first_line}`;
+}
+
+export function input_validator_prompt(statement: string, sampleIn: string): string{
+  return `Look at the given codeforces-style problem statement.
+Write a C++20 input validator: a program that reads a test input from the standard input and checks that it strictly follows the statement.
+Check the number of test cases T, the format of every line, every constraint, and that nothing follows the last test case.
+Whitespace at the end of lines and of the input is fine. Use long long for the numbers and check the ranges explicitly.
+Exit with code 0 if the input is valid, or print the reason to stderr and exit with code 1 if it is not.
+
+<PROBLEM_STATEMENT>
+${statement}
+</PROBLEM_STATEMENT>
+
+<SAMPLE_INPUT>
+${sampleIn}
+</SAMPLE_INPUT>
+
+Do not output anything else besides the code. Immediately start with a line: ${LANGUAGE_PROMPTS.cpp.first_line}`;
+}
+
+export function max_test_generator_prompt(statement: string, sampleIn: string): string{
+  return `Look at the given codeforces-style problem statement.
+Write a C++20 program generating a worst-case test input for it, to measure how fast a solution is.
+The program reads a single integer seed from the standard input, seeds std::mt19937 with it and prints one input with T = 1.
+The test case must satisfy every constraint of the statement, with every size at its maximum (n, values, the sum of n, etc.).
+Pick the shape that is the hardest for typical solutions: e.g. a path or a star for trees, all equal or strictly increasing values, the biggest answers.
+Print the input with printf or a single buffered write, it can be large.
+
+<PROBLEM_STATEMENT>
+${statement}
+</PROBLEM_STATEMENT>
+
+<SAMPLE_INPUT>
+${sampleIn}
+</SAMPLE_INPUT>
+
+Do not output anything else besides the code. Immediately start with a line: ${LANGUAGE_PROMPTS.cpp.first_line}`;
+}
+
 export function is_only_one_output_valid_prompt(statement: string, sampleIn: string, sampleOut: string): string{
   return `Look at the given codeforces-style problem statement.
 Your goal is to read the problem and examples and determine one simple thing: if for any provided test case input, there only one correct answer, or there more than one correct answer are accepted?
@@ -0,0 +1,52 @@
+import { executeSolution } from './executor';
+import { getSolutionOptions } from './problemMetadata';
+import { LANGUAGES } from './languages';
+import { Language } from '../types/language';
+
+const MAX_REPORT_LINES = 40;
+const MAX_REPORT_LENGTH = 3000;
+// Sanitizers and debug containers slow the program down a few times
+const DEBUG_BUILD_TIME_FACTOR = 3;
+
+const STACK_FRAME = /^\s*#\d+ 0x[0-9a-f]+/;
+
+// Keeps what helps to locate the bug: the error, the stack frames inside the solution and the summary.
+// Frames in libc or the sanitizer runtime, the shadow memory dump and the ==pid== prefixes are dropped.
+export function trimSanitizerReport(report: string): string {
+  const lines: string[] = [];
+  for (const line of report.split('\n')) {
+    if (line.startsWith('Shadow bytes around') || line.includes('ABORTING')) {
+      break;
+    }
+    if (/^=+$/.test(line) || (STACK_FRAME.test(line) && !/solution\.\w+:\d+/.test(line))) {
+      continue;
+    }
+    // Builds live in a dir named by the hash, the model only needs the file name
+    lines.push(line.replace(/^==\d+==/, '').replace(/\S*\/(solution\.\w+)/g, '$1'));
+  }
+
+  let trimmed = lines.slice(0, MAX_REPORT_LINES).join('\n').trim();
+  if (trimmed.length > MAX_REPORT_LENGTH) {
+    trimmed = trimmed.substring(0, MAX_REPORT_LENGTH) + '\n...';
+  }
+  return trimmed;
+}
+
+// Rebuilds the crashing solution in debug mode and reruns the failing input.
+// Returns undefined when the language has no debug build or the debug build does not crash.
+export async function diagnoseRuntimeError(problem: string, solution: string, language: Language, input: string): Promise<string | undefined> {
+  if (!LANGUAGES[language].debug) {
+    return undefined;
+  }
+  const options = getSolutionOptions(problem);
+  const result = await executeSolution(solution, language, {
+    ...options,
+    time_limit_seconds: options.time_limit_seconds * DEBUG_BUILD_TIME_FACTOR,
+    debug_build: true,
+  }, input);
+
+  if (result.verdict !== 'RE' || !result.error) {
+    return undefined;
+  }
+  return trimSanitizerReport(result.error);
+}
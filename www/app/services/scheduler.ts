@@ -0,0 +1,30 @@
+import PQueue from 'p-queue';
+import {
+  LLM_PROVIDERS,
+  MAX_CONCURRENT_COMPUTE_REQUESTS,
+  MAX_CONCURRENT_REQUESTS,
+} from '../config/config';
+import { LLMProvider } from '../types/models';
+
+// LLM requests are capped per provider, solution runs share the compute lane
+export type Lane = LLMProvider | 'compute';
+
+const globalQueue = new PQueue({ concurrency: MAX_CONCURRENT_REQUESTS });
+
+const laneQueues: Record<Lane, PQueue> = {
+  ...Object.fromEntries(Object.entries(LLM_PROVIDERS).map(([name, provider]) => [name, new PQueue({ concurrency: provider.max_concurrent_requests })])),
+  compute: new PQueue({ concurrency: MAX_CONCURRENT_COMPUTE_REQUESTS }),
+};
+
+// Runs the task once both its lane and the global cap have a free slot, higher priority first.
+// The lane slot is taken first, so requests waiting on a busy provider never hold global slots.
+// `onStart` is called when the task leaves the queues.
+export function schedule<T>(lane: Lane, priority: number, task: () => Promise<T>, onStart?: () => void): Promise<T> {
+  return laneQueues[lane].add(
+    () => globalQueue.add(() => {
+      onStart?.();
+      return task();
+    }, { priority, throwOnTimeout: true }),
+    { priority, throwOnTimeout: true },
+  );
+}
@@ -1,63 +1,22 @@
-import { executeCpp } from './cppExecutor';
+import { executeSolution, executeSolutionBatch } from './executor';
 import llm from './llm';
-import { IS_VALID_OUTPUT_MODEL, PROBLEMS_PATH, SOLUTIONS_PATH } from '../config/config';
+import { FULL_RUN_SHARDS, IS_VALID_OUTPUT_MODEL, PROBLEMS_PATH, SOLUTIONS_PATH } from '../config/config';
 import path from 'path';
 import fs  from 'fs';
 import * as prompts from './prompts';
-import { mkdir } from 'fs/promises';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
 import * as promptLogger from './promptLogger';
-import { SyntheticTest } from '../types/tests';
-
-function compareNumbers(a: number, b: number): boolean {
-  const absoluteError = Math.abs(a - b);
-  const maxAbs = Math.max(Math.abs(a), Math.abs(b));
-  let relativeError;
-  if (maxAbs > 0) {
-    relativeError = absoluteError / maxAbs;
-  } else {
-    relativeError = 0;
-  }
-  return absoluteError <= 1e-6 || relativeError <= 1e-6;
-}
-
-function compareStrings(str1: string, str2: string): boolean {
-  const lines1 = str1.trim().split('\n');
-  const lines2 = str2.trim().split('\n');
-
-  if (lines1.length !== lines2.length) {
-    return false;
-  }
-
-  for (let i = 0; i < lines1.length; i++) {
-    const tokens1 = lines1[i].trim().split(/\s+/);
-    const tokens2 = lines2[i].trim().split(/\s+/);
-
-    if (tokens1.length !== tokens2.length) {
-      return false;
-    }
-
-    for (let j = 0; j < tokens1.length; j++) {
-      const token1 = tokens1[j];
-      const token2 = tokens2[j];
-
-      if (token1 === token2) {
-        continue;
-      }
-
-      const num1 = parseFloat(token1);
-      const num2 = parseFloat(token2);
-
-      if (!isNaN(num1) && !isNaN(num2)) {
-        if (!compareNumbers(num1, num2)) {
-          return false;
-        }
-      } else {
-        return false;
-      }
-    }
-  }
-  return true;
-}
+import { Counterexample, SyntheticTest, TestStatus } from '../types/tests';
+import { ExecutionResult, Verdict } from '../types/execution';
+import { getProblemMetadata, getSolutionOptions, isInteractive, isOnlyOneOutputValid } from './problemMetadata';
+import { compareOutputs } from './comparator';
+import { Language } from '../types/language';
+import { LANGUAGES, solutionHash } from './languages';
+import { diagnoseRuntimeError } from './sanitizer';
+import { buildShards, getSubtasks, renumberCases } from './splitter';
+import { checkOutputs, CheckerVerdict } from './checker';
+import { recordSolutionOutputs, scoreTests } from './crossCheck';
 
 async function isValidOutput(
   problem: string,
@@ -68,7 +27,7 @@ async function isValidOutput(
   is_only_one_output_valid: boolean
 ): Promise<boolean> {
   if (is_only_one_output_valid) {
-    return compareStrings(resultOutput, sampleOutput);
+    return compareOutputs(resultOutput, sampleOutput, getProblemMetadata(problem).comparator);
   } else {
     const prompt = prompts.llm_sample_comparison(
       statement,
@@ -78,72 +37,88 @@ async function isValidOutput(
     );
     promptLogger.log(problem, 'Sample Comparison Prompt', prompt);
 
-    const result = await llm(prompt, IS_VALID_OUTPUT_MODEL);
+    const result = await llm(prompt, IS_VALID_OUTPUT_MODEL, { problem, stage: 'judge' });
     console.log('RESULT:', result);
     return result.trim() === 'CORRECT';
   }
 }
 
-function isOnlyOneOutputValid(problem: string): boolean {
-  try {
-    const cacheFilePath = path.join(PROBLEMS_PATH, problem, '_state', 'is_only_one_output_valid.json');
-    const cacheData = fs.readFileSync(cacheFilePath, 'utf8');
-    return JSON.parse(cacheData).is_only_one_output_valid;
-  } catch (error) {
-    console.error('Is only one output valid operation failed:', error);
-    return true;
-  }
-}
+export type ValidationResult = {
+  is_valid: boolean;
+  verdict: Verdict;
+  is_time_limit_exceeded?: boolean;
+  compile_error?: string;
+  runtime_error?: string;
+  // Report of the debug build rerun on the crashing input, see sanitizer.ts
+  sanitizer_report?: string;
+  wrong_answer?: string;
+  // The synthetic test the solution failed on, when it was not the sample
+  counterexample?: Counterexample;
+  // How much each synthetic test can be trusted, in the order of the tests, see crossCheck.ts
+  test_statuses?: TestStatus[];
+};
 
 async function validateSolutionAgainstATest(
   problem: string,
   statement: string,
   sampleInput: string,
   sampleOutput: string,
-  solution: string,
-): Promise<{
-  is_valid: boolean;
-  is_time_limit_exceeded?: boolean;
-  runtime_error?: string;
-  wrong_answer?: string;
-}> {
+  result: ExecutionResult,
+  checkerVerdict?: CheckerVerdict,
+  judgeOutput: boolean = true,
+): Promise<ValidationResult> {
   console.log('VALIDATING AGAINST A TEST: ', sampleInput, sampleOutput);
-  const result = await executeCpp(solution, sampleInput);
-  if (result.time_limit) {
-    return { is_valid: false, is_time_limit_exceeded: true };
+  if (result.verdict === 'CE') {
+    return { is_valid: false, verdict: 'CE', compile_error: result.error };
   }
-  
+
+  if (result.verdict === 'TLE') {
+    return { is_valid: false, verdict: 'TLE', is_time_limit_exceeded: true };
+  }
+
+  if (result.verdict === 'MLE') {
+    const peakMb = Math.round((result.usage?.peak_rss_kb || 0) / 1024);
+    return { is_valid: false, verdict: 'MLE', runtime_error: `Memory limit exceeded (peak memory usage: ${peakMb} MB)` };
+  }
+
+  if (result.verdict === 'OLE') {
+    return { is_valid: false, verdict: 'OLE', runtime_error: 'Output limit exceeded, the program printed way too much' };
+  }
+
   if (result.error) {
-    return { is_valid: false, runtime_error: result.error.toString() };
+    return { is_valid: false, verdict: 'RE', runtime_error: result.error.toString() };
+  }
+
+  // A crash is a crash whatever the expected output is, but a mismatch with an untrusted expected output proves nothing
+  if (!judgeOutput) {
+    return { is_valid: true, verdict: 'AC' };
   }
 
-  const is_only_one_output_valid = isOnlyOneOutputValid(problem);
-  const is_valid = await isValidOutput(
+  // The problem's checker.cpp gives a deterministic verdict, the string comparison or the LLM judge is the fallback
+  const is_valid = checkerVerdict ? checkerVerdict.is_valid : await isValidOutput(
     problem,
     statement,
     sampleInput,
     sampleOutput,
     result.output.trim(),
-    is_only_one_output_valid
+    isOnlyOneOutputValid(problem)
   );
 
   if (!is_valid) {
-    return { is_valid: false, wrong_answer: result.output.trim() };
+    // An interactor's log alone does not say what went wrong, its message does
+    const wrong_answer = result.interactor_verdict ? `${result.interactor_verdict.message}\n${result.output.trim()}`.trim() : result.output.trim();
+    return { is_valid: false, verdict: 'WA', wrong_answer };
   }
 
-  return { is_valid: true };
+  return { is_valid: true, verdict: 'AC' };
 }
 
 export async function validateSolution(
   problem: string,
   solution: string,
+  language: Language,
   tests: SyntheticTest[]
-): Promise<{
-  is_valid: boolean;
-  is_time_limit_exceeded?: boolean;
-  runtime_error?: string;
-  wrong_answer?: string;
-}> {
+): Promise<ValidationResult> {
   const problemDir = path.join(PROBLEMS_PATH, problem);
   const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
   const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
@@ -151,18 +126,49 @@ export async function validateSolution(
 
   const full_tests = [{input: sampleInput, output: sampleOutput}].concat(tests);
 
-  const results = await Promise.all(full_tests.map(test => validateSolutionAgainstATest(problem, statement, test.input, test.output, solution)));
+  // The solution is compiled once and run on the sample and every synthetic test
+  const executions = await executeSolutionBatch(solution, language, getSolutionOptions(problem), full_tests.map(test => test.input));
+  // On an interactive problem the interactor has already judged every run
+  const interactive = isInteractive(problem);
+  const checked = interactive
+    ? executions.map(execution => execution.interactor_verdict)
+    : await checkOutputs(problem, full_tests.map((test, i) => ({ input: test.input, output: executions[i].output, answer: test.output })));
+  const sampleResult = await validateSolutionAgainstATest(problem, statement, sampleInput, sampleOutput, executions[0], checked?.[0]);
+
+  // Outputs of a solution passing the sample are votes on the expected outputs of the synthetic tests
+  let test_statuses: TestStatus[] | undefined;
+  if (tests.length > 0) {
+    const hash = solutionHash(solution, language);
+    if (sampleResult.is_valid) {
+      recordSolutionOutputs(problem, hash, tests, executions.slice(1).map(execution => execution.error ? undefined : execution.output));
+    }
+    test_statuses = await scoreTests(problem, tests, hash);
+  }
 
-  for (const result of results) {
+  // Only the sample and the confirmed tests are hard gates for a wrong answer
+  const results = [sampleResult, ...await Promise.all(tests.map((test, i) => validateSolutionAgainstATest(
+    problem, statement, test.input, test.output, executions[i + 1], checked?.[i + 1], interactive || test_statuses?.[i] === 'confirmed',
+  )))];
+
+  for (let i = 0; i < results.length; i++) {
+    let result = results[i];
     if (!result || !result.is_valid) {
-      return result;
+      if (i > 0 && result?.verdict === 'WA') {
+        result = { ...result, counterexample: { input: full_tests[i].input, expected_output: full_tests[i].output, actual_output: result.wrong_answer || '' } };
+      }
+      // A bare "Segmentation fault" says little, the debug build rerun points at the faulty line
+      if (result?.verdict === 'RE') {
+        const sanitizer_report = await diagnoseRuntimeError(problem, solution, language, full_tests[i].input);
+        result = sanitizer_report ? { ...result, sanitizer_report } : result;
+      }
+      return { ...result, test_statuses };
     }
   }
 
-  return { is_valid: true };
+  return { is_valid: true, verdict: 'AC', test_statuses };
 }
 
-export async function saveSolution(problem: string, solution: string, output: string, qaValidated: boolean): Promise<void> {
+export async function saveSolution(problem: string, solution: string, language: Language, output: string, qaValidated: boolean): Promise<void> {
   const qaPrefix = qaValidated ? 'QA_' : '';
   const dateString: string = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').replace('Z', '');
   const problemDir = path.join(SOLUTIONS_PATH, problem);
@@ -172,8 +178,8 @@ export async function saveSolution(problem: string, solution: string, output: st
     // Create directory recursively if it doesn't exist
     await mkdir(solutionDir, { recursive: true });
 
-    // Save solution.txt
-    fs.writeFileSync(path.join(solutionDir, 'SOLUTION.cpp'), solution);
+    // Save SOLUTION.<ext>
+    fs.writeFileSync(path.join(solutionDir, `SOLUTION.${LANGUAGES[language].extension}`), solution);
     
     // Save full_out.txt
     fs.writeFileSync(path.join(solutionDir, 'OUTPUT.txt'), output);
@@ -183,23 +189,64 @@ export async function saveSolution(problem: string, solution: string, output: st
   }
 }
 
-export async function calculateFullSolution(problem: string, solution: string): Promise<string> {
+// Runs every shard as a separate input in parallel and glues the outputs back in the order of the test cases.
+// The first failed shard decides the result. Usage is the wall time of the slowest shard and the total CPU time.
+async function runInShards(problem: string, solution: string, language: Language, cases: string[]): Promise<ExecutionResult> {
+  const shards = buildShards(cases, FULL_RUN_SHARDS);
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'stackfish-shards-'));
+  try {
+    const results = await Promise.all(shards.map(async (shard, i) => {
+      const inputPath = path.join(workDir, `shard_${i}.txt`);
+      await writeFile(inputPath, shard.input, 'utf8');
+      return executeSolution(solution, language, getSolutionOptions(problem, true), undefined, inputPath);
+    }));
+
+    const failed = results.find(result => result.error || result.interactor_verdict?.is_valid === false);
+    if (failed) {
+      return failed;
+    }
+    const usages = results.map(result => result.usage).filter(usage => usage !== undefined);
+    return {
+      output: results.map((result, i) => renumberCases(result.output.trim(), shards[i].first_case)).join('\n'),
+      usage: usages.length ? {
+        wall_time_ms: Math.max(...usages.map(usage => usage.wall_time_ms)),
+        cpu_time_ms: usages.reduce((total, usage) => total + usage.cpu_time_ms, 0),
+        peak_rss_kb: Math.max(...usages.map(usage => usage.peak_rss_kb)),
+        exit_code: 0,
+        signal: null,
+      } : undefined,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Runs the solution on full_in.txt, in parallel shards once the input is split into test cases.
+// TLE/MLE/OLE verdicts are returned as is, so the caller can decide on the recovery, other failures are thrown.
+export async function calculateFullSolution(problem: string, solution: string, language: Language): Promise<ExecutionResult> {
   try {
     // Read the full input file for the problem
     const fullInputPath = path.join(PROBLEMS_PATH, problem, 'full_in.txt');
 
-    // Execute the C++ solution with the full input
-    const result = await executeCpp(solution, undefined, fullInputPath);
+    // Execute the solution with the full input
+    const cases = await getSubtasks(problem);
+    const result = cases && cases.length > 1
+      ? await runInShards(problem, solution, language, cases)
+      : await executeSolution(solution, language, getSolutionOptions(problem, true), undefined, fullInputPath);
 
-    if (result.time_limit) {
-      throw new Error('Time limit exceeded');
+    if (result.verdict === 'TLE' || result.verdict === 'MLE' || result.verdict === 'OLE') {
+      return result;
     }
 
     if (result.error) {
       throw new Error(`Runtime error: ${result.error}`);
     }
 
-    return result.output.trim();
+    if (result.interactor_verdict?.is_valid === false) {
+      throw new Error(`Interactor rejected the solution: ${result.interactor_verdict.message}`);
+    }
+
+    return { ...result, output: result.output.trim() };
 
   } catch (error) {
     console.error('Error calculating full solution:', error);
@@ -207,37 +254,17 @@ export async function calculateFullSolution(problem: string, solution: string):
   }
 }
 
+// The smallest test cases of the split full input, they make good edge cases for QA
 export async function getEdgeCases(problem: string): Promise<string[]> {
   const count = 10;
-  const problemDir = path.join(PROBLEMS_PATH, problem);
-  const stateDir = path.join(problemDir, '_state');
-  const isParallelizablePath = path.join(stateDir, 'is_parallelizable.json');
-
   try {
-    const isParallelizable = JSON.parse(fs.readFileSync(isParallelizablePath, 'utf-8'));
-    if (isParallelizable.status !== 'ready') {
+    const cases = await getSubtasks(problem);
+    if (!cases) {
       return [];
     }
-    const subtasksDir = path.join(stateDir, 'subtasks');
-    const files = fs.readdirSync(subtasksDir)
-      .map(file => ({
-        name: file,
-        path: path.join(subtasksDir, file),
-        size: fs.statSync(path.join(subtasksDir, file)).size
-      }))
-      .sort((a, b) => a.size - b.size)
-      .slice(0, count);
-
-    const filesContent = await Promise.all(
-      files.map(file => fs.readFileSync(file.path, 'utf-8'))
-    );
-    return filesContent.map(content => {
-      const lines = content.split('\n');
-      return lines.slice(1).join('\n').trim();
-    });
+    return [...cases].sort((a, b) => a.length - b.length).slice(0, count);
   } catch (error) {
-    console.error('Error checking parallelizable status');
+    console.error('Error reading the split test cases', error);
     return [];
   }
-
-}
\ No newline at end of file
+}
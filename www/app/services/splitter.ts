@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { FAILED_STATE_RETRY_MS, PROBLEMS_PATH, SPLIT_INPUT_MODEL } from '../config/config';
+import { SplitState } from '../types/problem';
+import { executeSolution } from './executor';
+import { hashFile } from './fileHash';
+import llm from './llm';
+import { parseCode } from './parse_utils';
+import { getExecutionOptions } from './problemMetadata';
+import * as prompts from './prompts';
+import * as promptLogger from './promptLogger';
+
+const SEPARATOR = '===STACKFISH_TEST_CASE_SEPARATOR===';
+const MAX_SPLIT_ATTEMPTS = 2;
+
+function stateDir(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state');
+}
+
+function splitStatePath(problem: string): string {
+  return path.join(stateDir(problem), 'is_parallelizable.json');
+}
+
+function subtasksDir(problem: string): string {
+  return path.join(stateDir(problem), 'subtasks');
+}
+
+function readSplitState(problem: string): SplitState | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(splitStatePath(problem), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function writeSplitState(problem: string, state: SplitState): void {
+  fs.mkdirSync(stateDir(problem), { recursive: true });
+  fs.writeFileSync(splitStatePath(problem), JSON.stringify(state, null, 2));
+}
+
+function tokens(text: string): string[] {
+  return text.split(/\s+/).filter(token => token.length > 0);
+}
+
+// The "# Input Format" section of the statement, or the whole statement if it has no such section
+function extractInputFormat(statement: string): string {
+  const match = statement.match(/#+\s*Input Format\s*\n([\s\S]*?)(?=\n#+\s|$)/i);
+  return match ? match[1].trim() : statement;
+}
+
+// Parses the splitter output into test cases (without their T = 1 line) and checks that the split round-trips:
+// the number of cases equals T and glueing the cases back gives the original input token by token.
+export function parseSplit(input: string, output: string): string[] {
+  const pieces = output.split(SEPARATOR).map(piece => piece.trim()).filter(piece => piece.length > 0);
+  const cases = pieces.map((piece, i) => {
+    const [first, ...rest] = piece.split('\n');
+    if (first.trim() !== '1') {
+      throw new Error(`Test case ${i + 1} does not start with T = 1`);
+    }
+    return rest.join('\n').trim();
+  });
+
+  const inputTokens = tokens(input);
+  if (String(cases.length) !== inputTokens[0]) {
+    throw new Error(`Split into ${cases.length} test cases, but T = ${inputTokens[0]}`);
+  }
+  const glued = [String(cases.length), ...cases.flatMap(tokens)];
+  if (glued.length !== inputTokens.length || glued.some((token, i) => token !== inputTokens[i])) {
+    throw new Error('Test cases glued back together differ from the original input');
+  }
+  return cases;
+}
+
+async function runSplitter(problem: string, splitter: string, inputString?: string, inputPath?: string): Promise<string> {
+  const result = await executeSolution(splitter, 'cpp', getExecutionOptions(problem, true), inputString, inputPath);
+  if (result.error) {
+    throw new Error(`Splitter failed: ${result.error}`);
+  }
+  return result.output;
+}
+
+// Writes one file per test case, "1" followed by the case, as getEdgeCases and getSubtasks expect
+function writeSubtasks(problem: string, cases: string[]): void {
+  const dir = subtasksDir(problem);
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(dir, { recursive: true });
+  const width = String(cases.length).length;
+  cases.forEach((testCase, i) => {
+    fs.writeFileSync(path.join(dir, `${String(i + 1).padStart(width, '0')}.txt`), `1\n${testCase}\n`);
+  });
+}
+
+// Asks the LLM for a program splitting full_in.txt into single test cases, verifies it on the sample and
+// the full input, and stores the cases in _state/subtasks. The result is cached until full_in.txt changes,
+// a failure only for FAILED_STATE_RETRY_MS.
+export async function splitInput(problem: string): Promise<SplitState> {
+  const problemDir = path.join(PROBLEMS_PATH, problem);
+  const fullInputPath = path.join(problemDir, 'full_in.txt');
+  const input_sha256 = await hashFile(fullInputPath);
+
+  const cached = readSplitState(problem);
+  const retryDue = cached?.status === 'failed' && Date.now() - (cached.failed_at ?? 0) >= FAILED_STATE_RETRY_MS;
+  if (cached && cached.input_sha256 === input_sha256 && !retryDue) {
+    return cached;
+  }
+
+  const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
+  const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
+  const prompt = prompts.split_program_prompt(extractInputFormat(statement), sampleInput, SEPARATOR);
+
+  let error = '';
+  for (let attempt = 0; attempt < MAX_SPLIT_ATTEMPTS; attempt++) {
+    try {
+      promptLogger.log(problem, 'Split Program Prompt', prompt);
+      const splitter = parseCode(await llm(prompt, SPLIT_INPUT_MODEL, { problem, stage: 'test_tools' }), 'cpp');
+
+      // The sample is cheap to check, a wrong splitter is rejected before touching the full input
+      parseSplit(sampleInput, await runSplitter(problem, splitter, sampleInput));
+      const fullInput = fs.readFileSync(fullInputPath, 'utf8');
+      const cases = parseSplit(fullInput, await runSplitter(problem, splitter, undefined, fullInputPath));
+
+      writeSubtasks(problem, cases);
+      const state: SplitState = { status: 'ready', input_sha256, test_cases: cases.length };
+      writeSplitState(problem, state);
+      return state;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      console.error(`Split attempt ${attempt + 1} failed for ${problem}:`, error);
+    }
+  }
+
+  const state: SplitState = { status: 'failed', input_sha256, error, failed_at: Date.now() };
+  writeSplitState(problem, state);
+  return state;
+}
+
+// Test cases of the current full_in.txt, undefined when the input is not split (yet) or was split before a change
+export async function getSubtasks(problem: string): Promise<string[] | undefined> {
+  const state = readSplitState(problem);
+  if (state?.status !== 'ready') {
+    return undefined;
+  }
+  const fullInputPath = path.join(PROBLEMS_PATH, problem, 'full_in.txt');
+  if (state.input_sha256 !== await hashFile(fullInputPath)) {
+    return undefined;
+  }
+
+  const dir = subtasksDir(problem);
+  return fs.readdirSync(dir)
+    .sort()
+    .map(file => fs.readFileSync(path.join(dir, file), 'utf8').split('\n').slice(1).join('\n').trim());
+}
+
+// Groups consecutive test cases into at most `count` shards of about the same size, each a valid input on its own
+export function buildShards(cases: string[], count: number): { input: string; first_case: number }[] {
+  const totalSize = cases.reduce((size, testCase) => size + testCase.length, 0);
+  const targetSize = Math.ceil(totalSize / count);
+  const shards: { input: string; first_case: number }[] = [];
+
+  let start = 0;
+  let size = 0;
+  for (let i = 0; i < cases.length; i++) {
+    size += cases[i].length;
+    if (size >= targetSize || i === cases.length - 1) {
+      const shardCases = cases.slice(start, i + 1);
+      shards.push({ input: `${shardCases.length}\n${shardCases.join('\n')}\n`, first_case: start + 1 });
+      start = i + 1;
+      size = 0;
+    }
+  }
+  return shards;
+}
+
+// Every shard numbers its cases from 1, so "Case #k:" is shifted to the position in the full input
+export function renumberCases(output: string, firstCase: number): string {
+  return output.replace(/^Case #(\d+):/gm, (_, k) => `Case #${Number(k) + firstCase - 1}:`);
+}
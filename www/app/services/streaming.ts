@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { DeltaListener } from '../types/models';
+
+// Answers a route with the JSON object `produce` resolves to. When the request has ?stream=1, the response is
+// newline-delimited JSON instead: a {"delta": "..."} line for every piece of the LLM answer as it is written
+// ("restart": true when a retried call starts over), then a {"result": {...}} line with the object.
+export async function streamableResponse(request: Request, produce: (onDelta?: DeltaListener) => Promise<object>): Promise<Response> {
+  if (new URL(request.url).searchParams.get('stream') !== '1') {
+    return NextResponse.json(await produce());
+  }
+
+  const encoder = new TextEncoder();
+  // Set when the browser stops reading, the LLM call still finishes so its tokens are accounted and cached
+  let cancelled = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (line: object) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+        }
+      };
+      try {
+        const result = await produce((delta, restart) => send(restart ? { delta, restart } : { delta }));
+        send({ result });
+      } catch (error) {
+        console.error('Error in a streamed response:', error);
+        send({ result: { error: error instanceof Error ? error.message : String(error) } });
+      }
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return new Response(stream, { headers: { 'Content-Type': 'application/x-ndjson' } });
+}
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import { FAILED_STATE_RETRY_MS, PROBLEMS_PATH, STRESS_TEST_COUNT, STRESS_TEST_MODEL } from '../config/config';
+import { ExecutionOptions, ExecutionResult } from '../types/execution';
+import { Language } from '../types/language';
+import { StressState } from '../types/problem';
+import { StressResult } from '../types/tests';
+import { checkOutputs, hasChecker } from './checker';
+import { compareOutputs } from './comparator';
+import { executeSolutionBatch } from './executor';
+import llm from './llm';
+import { parseCode } from './parse_utils';
+import { getExecutionOptions, getProblemMetadata, getSolutionOptions, isInteractive, isOnlyOneOutputValid } from './problemMetadata';
+import * as prompts from './prompts';
+import * as promptLogger from './promptLogger';
+import { diagnoseRuntimeError } from './sanitizer';
+
+const MAX_STRESS_ATTEMPTS = 2;
+// The cloud worker runs the inputs of a batch one after another and drops a request after 600 s,
+// so a batch of stress inputs may take at most this long even when every run times out
+const BATCH_TIME_BUDGET_SECONDS = 300;
+
+// Every solution passing validation asks for the stress tests at about the same time, they share one preparation
+const preparations = new Map<string, Promise<StressState>>();
+
+function stressStatePath(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'stress.json');
+}
+
+// A failed state is dropped once it is old enough to retry the preparation
+function readStressState(problem: string): StressState | undefined {
+  try {
+    const state: StressState = JSON.parse(fs.readFileSync(stressStatePath(problem), 'utf8'));
+    return state.status === 'failed' && Date.now() - (state.failed_at ?? 0) >= FAILED_STATE_RETRY_MS ? undefined : state;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeStressState(problem: string, state: StressState): void {
+  fs.mkdirSync(path.dirname(stressStatePath(problem)), { recursive: true });
+  fs.writeFileSync(stressStatePath(problem), JSON.stringify(state, null, 2));
+}
+
+// Splits the inputs into batches that fit BATCH_TIME_BUDGET_SECONDS, a run is cut off at twice the time limit plus a second
+function chunks<T>(items: T[], options: ExecutionOptions): T[][] {
+  const size = Math.max(1, Math.floor(BATCH_TIME_BUDGET_SECONDS / (options.time_limit_seconds * 2 + 1)));
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+}
+
+// Writes the brute force and the generator, checks the brute force on the sample and computes its outputs on the generated inputs
+async function generateStressTests(problem: string): Promise<StressState> {
+  const problemDir = path.join(PROBLEMS_PATH, problem);
+  const statement = fs.readFileSync(path.join(problemDir, 'statement.txt'), 'utf8').trim();
+  const sampleInput = fs.readFileSync(path.join(problemDir, 'sample_in.txt'), 'utf8').trim();
+  const sampleOutput = fs.readFileSync(path.join(problemDir, 'sample_out.txt'), 'utf8').trim();
+  const options = getExecutionOptions(problem);
+
+  let error = '';
+  for (let attempt = 0; attempt < MAX_STRESS_ATTEMPTS; attempt++) {
+    try {
+      const bruteForcePrompt = prompts.brute_force_prompt(statement, sampleInput, sampleOutput);
+      const generatorPrompt = prompts.input_generator_prompt(statement, sampleInput);
+      promptLogger.log(problem, 'Brute Force Prompt', bruteForcePrompt);
+      promptLogger.log(problem, 'Input Generator Prompt', generatorPrompt);
+      const [bruteForceOutput, generatorOutput] = await Promise.all([
+        llm(bruteForcePrompt, STRESS_TEST_MODEL, { problem, stage: 'test_tools' }),
+        llm(generatorPrompt, STRESS_TEST_MODEL, { problem, stage: 'test_tools' }),
+      ]);
+      const brute_force = parseCode(bruteForceOutput, 'cpp');
+      const generator = parseCode(generatorOutput, 'cpp');
+
+      // A plain run and comparison, the brute force is a reference program and not a candidate to validate
+      const [sampleRun] = await executeSolutionBatch(brute_force, 'cpp', options, [sampleInput]);
+      const [sampleVerdict] = await checkOutputs(problem, [{ input: sampleInput, output: sampleRun.output, answer: sampleOutput }]) ?? [];
+      const sampleAccepted = sampleVerdict
+        ? sampleVerdict.is_valid
+        : compareOutputs(sampleRun.output.trim(), sampleOutput, getProblemMetadata(problem).comparator);
+      if (sampleRun.error || !sampleAccepted) {
+        throw new Error(`Brute force fails the sample (${sampleRun.verdict || 'WA'})`);
+      }
+
+      const seeds = Array.from({ length: STRESS_TEST_COUNT }, (_, i) => String(i + 1));
+      const generated = await executeSolutionBatch(generator, 'cpp', options, seeds);
+      const inputs = [...new Set(generated.filter(result => !result.error).map(result => result.output.trim()))]
+        .filter(input => input.length > 0)
+        .sort((a, b) => a.length - b.length);
+      if (inputs.length === 0) {
+        throw new Error(`Generator produced no inputs: ${generated[0]?.error}`);
+      }
+
+      // Inputs the brute force can not handle in time are dropped, they are not tiny after all
+      const outputs: ExecutionResult[] = [];
+      for (const chunk of chunks(inputs, options)) {
+        outputs.push(...await executeSolutionBatch(brute_force, 'cpp', options, chunk));
+      }
+      const tests = inputs
+        .map((input, i) => ({ input, output: outputs[i].output.trim(), error: outputs[i].error }))
+        .filter(test => !test.error)
+        .map(({ input, output }) => ({ input, output }));
+      if (tests.length === 0) {
+        throw new Error(`Brute force failed on every generated input: ${outputs[0]?.error}`);
+      }
+
+      const state: StressState = { status: 'ready', brute_force, generator, tests };
+      writeStressState(problem, state);
+      return state;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      console.error(`Stress test preparation attempt ${attempt + 1} failed for ${problem}:`, error);
+    }
+  }
+
+  const state: StressState = { status: 'failed', error, failed_at: Date.now() };
+  writeStressState(problem, state);
+  return state;
+}
+
+async function prepareStressTests(problem: string): Promise<StressState> {
+  const cached = readStressState(problem);
+  if (cached) {
+    return cached;
+  }
+  let preparation = preparations.get(problem);
+  if (!preparation) {
+    preparation = generateStressTests(problem).finally(() => preparations.delete(problem));
+    preparations.set(problem, preparation);
+  }
+  return preparation;
+}
+
+// The brute force of a problem whose stress tests are prepared, a reference for the synthetic tests too
+export function getBruteForce(problem: string): string | undefined {
+  const state = readStressState(problem);
+  return state?.status === 'ready' ? state.brute_force : undefined;
+}
+
+// The verdict of a run that failed on a stress test, with the error runtime error recovery gets
+async function failedRun(problem: string, solution: string, language: Language, input: string, result: ExecutionResult): Promise<Pick<StressResult, 'verdict' | 'runtime_error' | 'sanitizer_report'>> {
+  switch (result.verdict) {
+    case 'TLE':
+      return { verdict: 'TLE' };
+    case 'MLE':
+      return { verdict: 'MLE', runtime_error: `Memory limit exceeded (peak memory usage: ${Math.round((result.usage?.peak_rss_kb || 0) / 1024)} MB)` };
+    case 'OLE':
+      return { verdict: 'OLE', runtime_error: 'Output limit exceeded, the program printed way too much' };
+    default: {
+      const sanitizer_report = await diagnoseRuntimeError(problem, solution, language, input);
+      return { verdict: 'RE', runtime_error: result.error, sanitizer_report };
+    }
+  }
+}
+
+// Runs the solution on the stress tests and reports the first (smallest) input where it disagrees with the brute force or fails.
+// The tests go in batches, so a slow solution stops at the first batch with a failure.
+export async function stressTest(problem: string, solution: string, language: Language): Promise<StressResult> {
+  if (isInteractive(problem)) {
+    return { status: 'skipped', tests_run: 0, reason: 'the problem is interactive' };
+  }
+  if (!isOnlyOneOutputValid(problem) && !hasChecker(problem)) {
+    return { status: 'skipped', tests_run: 0, reason: 'more than one output is valid and there is no checker' };
+  }
+  const state = await prepareStressTests(problem);
+  if (state.status !== 'ready' || !state.tests) {
+    return { status: 'skipped', tests_run: 0, reason: state.error || 'no stress tests' };
+  }
+
+  const options = getSolutionOptions(problem);
+  const comparator = getProblemMetadata(problem).comparator;
+  let tests_run = 0;
+  for (const tests of chunks(state.tests, options)) {
+    const results = await executeSolutionBatch(solution, language, options, tests.map(test => test.input));
+    const checked = await checkOutputs(problem, tests.map((test, i) => ({ input: test.input, output: results[i].output, answer: test.output })));
+    for (let i = 0; i < tests.length; i++) {
+      const test = tests[i];
+      const result = results[i];
+      tests_run++;
+      const counterexample = { input: test.input, expected_output: test.output, actual_output: result.output.trim() };
+      if (result.error) {
+        return { status: 'failed', tests_run, counterexample, ...await failedRun(problem, solution, language, test.input, result) };
+      }
+      const checkerVerdict = checked?.[i];
+      const accepted = checkerVerdict ? checkerVerdict.is_valid : compareOutputs(counterexample.actual_output, test.output, comparator);
+      if (!accepted) {
+        return { status: 'failed', tests_run, counterexample, verdict: 'WA' };
+      }
+    }
+  }
+  return { status: 'passed', tests_run };
+}
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import { PROBLEMS_PATH, UB_CHECK_CASES } from '../config/config';
+import { ExecutionResult } from '../types/execution';
+import { Language } from '../types/language';
+import { ComparatorSettings } from '../types/problem';
+import { BuildDivergence, UBCheckResult } from '../types/tests';
+import { compareOutputs } from './comparator';
+import { executeSolutionBatch } from './executor';
+import { LANGUAGES } from './languages';
+import { getProblemMetadata, getSolutionOptions } from './problemMetadata';
+import { getSubtasks } from './splitter';
+
+// Inputs and outputs of a divergence go into a prompt, only the start of a long one is kept
+const MAX_SHOWN_LENGTH = 2000;
+const MAX_DIVERGENCES = 3;
+
+function shorten(text: string): string {
+  return text.length > MAX_SHOWN_LENGTH ? text.substring(0, MAX_SHOWN_LENGTH) + '\n...' : text;
+}
+
+// UB_CHECK_CASES split test cases spread over full_in.txt, each one as an input with T = 1
+async function pickTestCases(problem: string): Promise<string[]> {
+  const cases = await getSubtasks(problem);
+  if (!cases) {
+    return [];
+  }
+  const count = Math.min(UB_CHECK_CASES, cases.length);
+  return Array.from({ length: count }, (_, i) => `1\n${cases[Math.floor(i * cases.length / count)]}\n`);
+}
+
+type Outcome = { kind: 'error' | 'rejected' | 'output'; output?: string; shown: string };
+
+// What a build printed, or how it failed. Any two failures count as the same outcome,
+// consistent crashes are for validation to catch.
+function outcome(result: ExecutionResult): Outcome {
+  if (result.error) {
+    return { kind: 'error', shown: `${result.verdict || 'RE'}: ${result.error.split('\n')[0]}` };
+  }
+  if (result.interactor_verdict?.is_valid === false) {
+    return { kind: 'rejected', shown: `rejected by the interactor: ${result.interactor_verdict.message}` };
+  }
+  const output = result.output.trim();
+  return { kind: 'output', output, shown: shorten(output) };
+}
+
+// Outputs are compared like the problem compares answers, last-digit float differences between builds are no divergence
+function sameOutcome(a: Outcome, b: Outcome, comparator?: ComparatorSettings): boolean {
+  return a.kind === b.kind && (a.kind !== 'output' || compareOutputs(a.output!, b.output!, comparator));
+}
+
+// Runs the solution built with every compiler and optimization level of LanguageSpec.ub_builds on the sample
+// and some of the split test cases, and reports the inputs where the builds disagree. A build that does not compile
+// (its compiler is missing) is left out, and so is a run over the time limit, -O0 builds are much slower.
+export async function checkForUndefinedBehavior(problem: string, solution: string, language: Language): Promise<UBCheckResult> {
+  const allBuilds = Object.keys(LANGUAGES[language].ub_builds || {});
+  if (allBuilds.length < 2) {
+    return { status: 'skipped', builds: [], reason: `no alternative builds for ${language}` };
+  }
+
+  const sampleInput = fs.readFileSync(path.join(PROBLEMS_PATH, problem, 'sample_in.txt'), 'utf8').trim();
+  const inputs = [sampleInput, ...await pickTestCases(problem)];
+  const options = getSolutionOptions(problem);
+  const comparator = getProblemMetadata(problem).comparator;
+  const runs = await Promise.all(allBuilds.map(ub_build => executeSolutionBatch(solution, language, { ...options, ub_build }, inputs)));
+
+  const compiled = allBuilds.map((_, i) => i).filter(i => runs[i][0]?.verdict !== 'CE');
+  const builds = compiled.map(i => allBuilds[i]);
+  if (compiled.length < 2) {
+    return { status: 'skipped', builds, reason: 'fewer than two builds compile' };
+  }
+
+  const divergences: BuildDivergence[] = [];
+  inputs.forEach((input, j) => {
+    const finished = compiled.filter(i => runs[i][j].verdict !== 'TLE');
+    const outcomes = finished.map(i => outcome(runs[i][j]));
+    if (outcomes.some(o => !sameOutcome(o, outcomes[0], comparator))) {
+      divergences.push({
+        input: shorten(input),
+        outputs: Object.fromEntries(finished.map((i, k) => [allBuilds[i], outcomes[k].shown])),
+      });
+    }
+  });
+
+  if (divergences.length === 0) {
+    return { status: 'passed', builds };
+  }
+  return { status: 'diverged', builds, divergences: divergences.slice(0, MAX_DIVERGENCES) };
+}
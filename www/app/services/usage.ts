@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import { LLM_MODELS, PROBLEMS_PATH } from '../config/config';
+import { LLMCallContext, Model, RunUsage, TokenUsage, UsageState } from '../types/models';
+
+// What the provider reports for a single call
+export type CallTokens = Pick<TokenUsage, 'input_tokens' | 'output_tokens' | 'reasoning_tokens'>;
+
+function usagePath(problem: string): string {
+  return path.join(PROBLEMS_PATH, problem, '_state', 'usage.json');
+}
+
+export function readUsage(problem: string): UsageState {
+  try {
+    return JSON.parse(fs.readFileSync(usagePath(problem), 'utf8'));
+  } catch {
+    return { runs: [] };
+  }
+}
+
+// Reads, changes and writes the usage without awaiting in between, so concurrent calls don't lose each other's tokens
+function updateUsage(problem: string, update: (state: UsageState) => void): void {
+  const state = readUsage(problem);
+  update(state);
+  fs.mkdirSync(path.dirname(usagePath(problem)), { recursive: true });
+  fs.writeFileSync(usagePath(problem), JSON.stringify(state, null, 2));
+}
+
+function newRun(): RunUsage {
+  return {
+    started_at: new Date().toISOString(),
+    total: { calls: 0, input_tokens: 0, output_tokens: 0, reasoning_tokens: 0, cost_usd: 0 },
+    by_stage: {},
+    by_model: {},
+  };
+}
+
+function add(usage: TokenUsage | undefined, tokens: CallTokens, cost_usd: number): TokenUsage {
+  return {
+    calls: (usage?.calls ?? 0) + 1,
+    input_tokens: (usage?.input_tokens ?? 0) + tokens.input_tokens,
+    output_tokens: (usage?.output_tokens ?? 0) + tokens.output_tokens,
+    reasoning_tokens: (usage?.reasoning_tokens ?? 0) + tokens.reasoning_tokens,
+    cost_usd: (usage?.cost_usd ?? 0) + cost_usd,
+  };
+}
+
+// Starts accounting a new run of the problem, the previous one is kept in the history
+export function startUsageRun(problem: string): RunUsage {
+  const run = newRun();
+  updateUsage(problem, state => {
+    if (state.current) {
+      state.runs.push(state.current);
+    }
+    state.current = run;
+  });
+  return run;
+}
+
+// Adds the tokens of an LLM call to the current run of the problem, calls made outside of a run start one
+export function recordUsage(context: LLMCallContext, model: Model, tokens: CallTokens): void {
+  const price = LLM_MODELS[model]?.price_per_million_tokens;
+  const cost_usd = price ? (tokens.input_tokens * price.input + tokens.output_tokens * price.output) / 1e6 : 0;
+  updateUsage(context.problem, state => {
+    const run = state.current ?? newRun();
+    run.total = add(run.total, tokens, cost_usd);
+    run.by_stage[context.stage] = add(run.by_stage[context.stage], tokens, cost_usd);
+    run.by_model[model] = add(run.by_model[model], tokens, cost_usd);
+    state.current = run;
+  });
+}
@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { CLOUD_WORKER_URLS, WORKER_HEALTH_CHECK_INTERVAL_MS } from '../config/config';
+
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+type Worker = {
+  url: string;
+  healthy: boolean;
+  active_jobs: number;
+  capacity: number;
+  // Start times of the requests still waiting for a response, health checks never reset it
+  in_flight: number[];
+  checked_at: number;
+};
+
+const workers: Worker[] = CLOUD_WORKER_URLS.map(url => ({
+  url,
+  healthy: true,
+  active_jobs: 0,
+  capacity: 1,
+  in_flight: [],
+  checked_at: 0,
+}));
+
+let healthCheck: Promise<void> | undefined;
+
+async function checkWorker(worker: Worker): Promise<void> {
+  const checkedAt = Date.now();
+  try {
+    const response = await axios.get(`${worker.url}/health`, { timeout: HEALTH_CHECK_TIMEOUT });
+    worker.healthy = response.data.status === 'ok';
+    worker.active_jobs = response.data.active_jobs ?? 0;
+    worker.capacity = Math.max(response.data.capacity ?? 1, 1);
+  } catch (error) {
+    console.log(`Worker ${worker.url} failed the health check:`, error instanceof Error ? error.message : error);
+    worker.healthy = false;
+  }
+  worker.checked_at = checkedAt;
+}
+
+// Rechecks the workers whose last check is too old, concurrent callers share one round of checks
+async function refreshHealth(): Promise<void> {
+  const stale = workers.filter(worker => Date.now() - worker.checked_at > WORKER_HEALTH_CHECK_INTERVAL_MS);
+  if (stale.length === 0) {
+    return;
+  }
+  if (!healthCheck) {
+    healthCheck = Promise.all(stale.map(checkWorker)).then(() => undefined).finally(() => {
+      healthCheck = undefined;
+    });
+  }
+  await healthCheck;
+}
+
+// The reported jobs already include the requests sent before the check, so only the later ones are added
+function load(worker: Worker): number {
+  const sentSinceCheck = worker.in_flight.filter(startedAt => startedAt >= worker.checked_at).length;
+  return (worker.active_jobs + sentSinceCheck) / worker.capacity;
+}
+
+// Healthy workers from the least loaded, then the unhealthy ones as a last resort
+async function workersByLoad(): Promise<Worker[]> {
+  await refreshHealth();
+  const healthy = workers.filter(worker => worker.healthy).sort((a, b) => load(a) - load(b));
+  return [...healthy, ...workers.filter(worker => !worker.healthy)];
+}
+
+// A worker that is down or answers with 5xx is skipped until its next health check
+function isWorkerDown(error: unknown): boolean {
+  return axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+}
+
+// Posts to the least loaded healthy worker, failing over to the next one when a worker is down or overloaded (429).
+// Throws the last error when every worker failed.
+export async function postToPool(endpoint: string, payload: unknown): Promise<unknown> {
+  let lastError: unknown = new Error('No cloud workers configured');
+  for (const worker of await workersByLoad()) {
+    const startedAt = Date.now();
+    worker.in_flight.push(startedAt);
+    try {
+      const response = await axios.post(`${worker.url}/${endpoint}`, payload, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        responseType: 'json',
+      });
+      return response.data;
+    } catch (error) {
+      const overloaded = axios.isAxiosError(error) && error.response?.status === 429;
+      if (!overloaded && !isWorkerDown(error)) {
+        throw error;
+      }
+      console.log(`Worker ${worker.url} failed with ${axios.isAxiosError(error) ? error.response?.status ?? error.code : error}, trying the next one`);
+      if (!overloaded) {
+        worker.healthy = false;
+        worker.checked_at = Date.now();
+      }
+      lastError = error;
+    } finally {
+      worker.in_flight.splice(worker.in_flight.indexOf(startedAt), 1);
+    }
+  }
+  throw lastError;
+}
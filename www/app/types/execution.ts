@@ -0,0 +1,65 @@
+import { Language } from './language';
+
+// Resources consumed by a single run of a program, as measured by the sandbox
+export type ResourceUsage = {
+  wall_time_ms: number;
+  cpu_time_ms: number;
+  peak_rss_kb: number;
+  exit_code: number | null;
+  signal: string | null;
+};
+
+// AC - accepted, WA - wrong answer, CE - compile error, RE - runtime error,
+// TLE - time limit exceeded, MLE - memory limit exceeded, OLE - output limit exceeded
+export type Verdict = 'AC' | 'WA' | 'CE' | 'RE' | 'TLE' | 'MLE' | 'OLE';
+
+// `verdict` is only set when the run failed, AC/WA are decided later by comparing the output.
+// For CE the `error` holds the compiler diagnostics, for RE the exit code or signal and stderr.
+// For interactive problems `output` is the interactor's log and `interactor_verdict` tells if the interaction was correct.
+export type ExecutionResult = {
+  output: string;
+  error?: string;
+  verdict?: Exclude<Verdict, 'AC' | 'WA'>;
+  usage?: ResourceUsage;
+  interactor_verdict?: InteractorVerdict;
+};
+
+// The judge program of an interactive problem, built like a C++ solution.
+// It is run as `interactor <input> <log>` (as testlib's registerInteraction expects) with its stdin and stdout
+// connected to the solution, and exits with 0 when the solution is correct, 1 or 2 when it is not.
+export type Interactor = {
+  source: string;
+  // Every line the solution sends is a query, going over the limit stops the run
+  max_queries?: number;
+};
+
+export type InteractorVerdict = {
+  is_valid: boolean;
+  // The interactor's stderr, e.g. "wrong answer guessed 5, expected 7"
+  message: string;
+};
+
+export type ExecutionOptions = {
+  time_limit_seconds: number;
+  memory_limit_mb: number;
+  output_limit_mb: number;
+  // Build with sanitizers and debug checks (C++: ASan/UBSan and _GLIBCXX_DEBUG) to diagnose a runtime error.
+  // Languages without a debug build run as usual.
+  debug_build?: boolean;
+  // One of LanguageSpec.ub_builds, used by the undefined behavior check instead of the usual build
+  ub_build?: string;
+  // Set for interactive problems, the solution talks to the interactor instead of reading its input
+  interactor?: Interactor;
+};
+
+export type ExecutionBackendName = 'cloud' | 'local';
+
+// A place where solutions are compiled and run, in any of the supported languages.
+// `inputString` is used for small inline inputs (samples, synthetic tests),
+// `inputPath` points to a large input file on the local disk (full_in.txt).
+// `executeBatch` compiles the source once and runs it on every input, results are in the order of inputs.
+// Backends cache builds by the hash of the language and source, so repeated runs of the same solution skip compilation.
+export interface ExecutionBackend {
+  execute(sourceCode: string, language: Language, options: ExecutionOptions, inputString?: string, inputPath?: string): Promise<ExecutionResult>;
+  executeBatch(sourceCode: string, language: Language, options: ExecutionOptions, inputs: string[]): Promise<ExecutionResult[]>;
+}
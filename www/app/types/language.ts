@@ -0,0 +1 @@
+export type Language = 'cpp' | 'python' | 'java' | 'rust';
@@ -1,9 +1,87 @@
-export type Model =
-  | 'gpt-5.3-codex'
-  | 'gpt-5.2-codex'
-  | 'gpt-5.2'
-  | 'gpt-5.1-codex'
-  | 'gpt-5.1-codex-mini'
-  | 'gpt-5.1-codex-max'
-  | 'qwq-32b-preview'
-  | 'llama-3.3-70b';
+// A key of LLM_MODELS in config.ts
+export type Model = string;
+
+// A key of LLM_PROVIDERS in config.ts, every provider gets its own concurrency cap
+export type LLMProvider = string;
+
+// How a provider is called:
+// 'codex' - the ChatGPT Codex endpoint with the subscription OAuth ("Connect OpenAI" in the UI)
+// 'openai' - the OpenAI API with an API key
+// 'openai_compatible' - any server implementing the OpenAI chat completions API at `base_url` (vLLM, Ollama, llama.cpp server)
+// 'together' - together.ai
+// 'mock' - scripted answers set with setMockScript() of services/mockLLM.ts, for tests
+export type LLMProviderKind = 'codex' | 'openai' | 'openai_compatible' | 'together' | 'mock';
+
+export type LLMProviderConfig = {
+  kind: LLMProviderKind;
+  base_url?: string;
+  // The env var in config.env holding the API key, local servers usually need none
+  api_key_env?: string;
+  max_concurrent_requests: number;
+};
+
+export type ModelCapabilities = {
+  // The API can be asked for a JSON object, otherwise the object is cut out of the reply
+  json_mode: boolean;
+  // The model thinks before it answers: a <think> block in the reply is dropped,
+  // and OpenAI gets max_completion_tokens instead of max_tokens
+  reasoning: boolean;
+  // Prompt and answer together, in tokens
+  context_tokens: number;
+  max_output_tokens: number;
+};
+
+export type ModelConfig = {
+  provider: LLMProvider;
+  // The name the provider knows the model by
+  api_model: string;
+  capabilities: ModelCapabilities;
+  // For models that only think out loud: their reply goes to this model, which writes the final answer
+  final_answer_model?: Model;
+  // USD per million tokens, reasoning tokens are paid as output. Unset for the subscription (codex) models.
+  price_per_million_tokens?: { input: number; output: number };
+};
+
+// How llm() uses the response cache:
+// 'off' - every call goes to the provider
+// 'read_write' - a call seen before gets the cached answer, new answers are stored
+// 'replay' - only cached answers, a call missing from the cache fails without reaching the network
+export type LLMCacheMode = 'off' | 'read_write' | 'replay';
+
+// What an LLM call is for, the usage of a problem is broken down by it:
+// 'test_tools' are the programs written around the solutions - brute force, generators, validators, the input splitter
+export type LLMStage = 'attack_vector' | 'synthetic_tests' | 'write_solution' | 'recovery' | 'qa' | 'judge' | 'test_tools';
+
+// Who an LLM call is accounted to
+export type LLMCallContext = {
+  problem: string;
+  stage: LLMStage;
+};
+
+// Gets the pieces of an LLM answer while it is being written. `restart` is set on the first piece of a retried call,
+// the pieces before it belong to an abandoned answer.
+export type DeltaListener = (delta: string, restart?: boolean) => void;
+
+// Tokens reported by the provider for one or more calls. Reasoning tokens are a part of the output tokens.
+export type TokenUsage = {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  // Only counted for models with a price in LLM_MODELS
+  cost_usd: number;
+};
+
+// The LLM usage of one "Let's go!" run of a problem
+export type RunUsage = {
+  started_at: string;
+  total: TokenUsage;
+  by_stage: Partial<Record<LLMStage, TokenUsage>>;
+  by_model: Record<Model, TokenUsage>;
+};
+
+// Stored in _state/usage.json, a new run moves the current one to the history
+export type UsageState = {
+  current?: RunUsage;
+  runs: RunUsage[];
+};
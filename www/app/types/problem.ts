@@ -0,0 +1,85 @@
+// How an output is compared to the expected one when only one output is valid:
+// - lines: the same lines, whitespace at the line ends aside
+// - token: the same whitespace-separated tokens on every line
+// - float: like token, but numbers only have to be within `epsilon` (absolute or relative, 1e-6 by default).
+//   Integers too, unless `exact_integers` is set
+// - case_insensitive: like token, ignoring the case of letters (YES/yes)
+// - unordered_lines: like token, but the lines may come in any order
+export type ComparatorMode = 'lines' | 'token' | 'float' | 'case_insensitive' | 'unordered_lines';
+
+export type ComparatorSettings = {
+  mode: ComparatorMode;
+  epsilon?: number;
+  // For float: two integers must be equal, as 1000000000000000001 and 1000000000000000000 are different answers
+  exact_integers?: boolean;
+};
+
+// Optional per-problem settings, read from PROBLEMS/<problem>/metadata.json
+export type ProblemMetadata = {
+  // Limits for a single run on sample and synthetic tests
+  time_limit_seconds: number;
+  memory_limit_mb: number;
+  output_limit_mb: number;
+  // Limit for the run on full_in.txt, which contains all the test cases at once
+  full_time_limit_seconds: number;
+  // Interactive problems have a PROBLEMS/<problem>/interactor.cpp, which reads the test from the input file
+  // and judges the solution while talking to it
+  interactive?: boolean;
+  // The most lines the solution may send to the interactor in one run, not limited when unset
+  max_queries?: number;
+  // Comparison of outputs without a checker, float with 1e-6 when unset
+  comparator?: ComparatorSettings;
+};
+
+// Result of splitting full_in.txt into single test cases, stored in _state/is_parallelizable.json
+export type SplitState = {
+  status: 'ready' | 'failed';
+  // Hash of the full_in.txt the split was made for, a changed input is split again
+  input_sha256: string;
+  test_cases?: number;
+  error?: string;
+  // When the split failed, it is retried FAILED_STATE_RETRY_MS later
+  failed_at?: number;
+};
+
+// The brute force and the small random tests of the stress stage, stored in _state/stress.json
+export type StressState = {
+  status: 'ready' | 'failed';
+  brute_force?: string;
+  generator?: string;
+  // Generated inputs with the brute force outputs, from the smallest input
+  tests?: { input: string; output: string }[];
+  error?: string;
+  // When the preparation failed, it is retried FAILED_STATE_RETRY_MS later
+  failed_at?: number;
+};
+
+// A checker written by the LLM for a problem with multiple valid outputs, stored in _state/checker.json.
+// It is only used when it accepted the sample output and rejected every corrupted one.
+export type CheckerState = {
+  status: 'ready' | 'failed';
+  source?: string;
+  corruptions_rejected?: number;
+  error?: string;
+  // When the synthesis failed, it is retried FAILED_STATE_RETRY_MS later
+  failed_at?: number;
+};
+
+// An LLM-written program checking that a test input follows the statement, stored in _state/input_validator.json
+export type InputValidatorState = {
+  status: 'ready' | 'failed';
+  source?: string;
+  error?: string;
+  // When the generation failed, it is retried FAILED_STATE_RETRY_MS later
+  failed_at?: number;
+};
+
+// The max-size inputs of the performance probe, stored in _state/perf_probe.json with the inputs in _state/perf_probe/
+export type PerfProbeState = {
+  status: 'ready' | 'failed';
+  generator?: string;
+  input_files?: string[];
+  error?: string;
+  // When the preparation failed, it is retried FAILED_STATE_RETRY_MS later
+  failed_at?: number;
+};
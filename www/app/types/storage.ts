@@ -0,0 +1,10 @@
+export type BlobStorageName = 'gcs' | 's3' | 'fs';
+
+// Object storage shared with the cloud worker, large inputs and outputs go through it instead of the request body.
+// Objects are stored under keys like `inputs/<sha256>`, `url` is how the worker refers to them (gs://, s3:// or file://).
+export interface BlobStorage {
+  exists(key: string): Promise<boolean>;
+  uploadFile(key: string, localPath: string): Promise<void>;
+  download(url: string): Promise<Buffer>;
+  url(key: string): string;
+}
@@ -1,5 +1,77 @@
+import { Verdict } from './execution';
+
+// How much the expected output of a synthetic test can be trusted, see crossCheck.ts:
+// confirmed - independent sources (brute force, other solutions and generations) agree with it, the test is a hard gate
+// disputed - they mostly disagree, the test is likely wrong
+// unverified - not enough evidence yet
+export type TestStatus = 'confirmed' | 'disputed' | 'unverified';
+
 export type SyntheticTest = {
   input: string;
   output: string;
   explanation: string;
-}; 
\ No newline at end of file
+}; 
+// A small input on which the candidate disagrees with the brute force or its run fails, see stress.ts
+export type Counterexample = {
+  input: string;
+  expected_output: string;
+  actual_output: string;
+};
+
+export type StressResult = {
+  status: 'passed' | 'failed' | 'skipped';
+  tests_run: number;
+  counterexample?: Counterexample;
+  // What the candidate got on the counterexample: WA, or the verdict of the failed run
+  verdict?: Verdict;
+  // Set for RE, MLE and OLE, like in the validation result
+  runtime_error?: string;
+  sanitizer_report?: string;
+  // Why the stage was skipped
+  reason?: string;
+};
+
+// A synthetic test rejected by the input validator, see inputValidator.ts
+export type DroppedTest = {
+  test: SyntheticTest;
+  reason: string;
+};
+
+// One run of the performance probe on a max-size input
+export type ProbeTiming = {
+  input_bytes: number;
+  wall_time_ms: number;
+  time_limit_exceeded: boolean;
+};
+
+export type PerfProbeResult = {
+  status: 'fast' | 'slow' | 'skipped';
+  timings: ProbeTiming[];
+  // The slowest probe scaled to the size of full_in.txt
+  estimated_full_ms?: number;
+  full_time_limit_ms?: number;
+  // Why the stage was skipped
+  reason?: string;
+};
+
+// An input on which the builds of the undefined behavior check print different outputs
+export type BuildDivergence = {
+  input: string;
+  // What every build printed (or how it failed), keyed by the build name
+  outputs: Record<string, string>;
+};
+
+export type UBCheckResult = {
+  status: 'passed' | 'diverged' | 'skipped';
+  // Builds that compiled and were compared
+  builds: string[];
+  divergences?: BuildDivergence[];
+  // Why the check was skipped
+  reason?: string;
+};
+
+// Problems found in a full output by the format check, before it is saved
+export type OutputFormatResult = {
+  is_valid: boolean;
+  issues: string[];
+};
@@ -1,7 +1,60 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { ProblemService, type Log } from '@/app/services/problemService';
+import { useState, useEffect, useRef } from 'react';
+import { ProblemService, type Log, type RequestCounts } from '@/app/services/problemService';
+import type { Verdict } from '@/app/types/execution';
+import type { RunUsage, TokenUsage } from '@/app/types/models';
+
+const VERDICT_COLORS: Record<Verdict, string> = {
+  AC: 'bg-green-700',
+  WA: 'bg-red-700',
+  CE: 'bg-yellow-700',
+  RE: 'bg-orange-700',
+  TLE: 'bg-blue-700',
+  MLE: 'bg-purple-700',
+  OLE: 'bg-pink-700',
+};
+
+function VerdictBadge({ verdict }: { verdict: Verdict }) {
+  return (
+    <span className={`px-1 rounded font-mono text-[10px] ${VERDICT_COLORS[verdict]}`}>{verdict}</span>
+  );
+}
+
+// What the LLM has written for a row, collapsed by default. While it is written, the view follows the end of the
+// text and the request can be stopped.
+function LiveOutput({ log }: { log: Log }) {
+  const [expanded, setExpanded] = useState(false);
+  const outputRef = useRef<HTMLPreElement>(null);
+  const output = log.live_output ?? '';
+  const writing = log.status === 'loading';
+
+  useEffect(() => {
+    if (expanded && writing && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [expanded, writing, output]);
+
+  return (
+    <div className="ml-2 text-xs">
+      <div className="flex items-center gap-2 text-gray-400">
+        <button onClick={() => setExpanded(!expanded)} className="hover:text-gray-200">
+          {expanded ? '▾' : '▸'} {writing ? 'Writing' : 'Written'}: {output.length} chars
+        </button>
+        {writing && (
+          <button onClick={() => ProblemService.stopLog(log.id)} className="text-red-400 hover:text-red-300">
+            Stop
+          </button>
+        )}
+      </div>
+      {expanded && (
+        <pre ref={outputRef} className="mt-1 max-h-48 overflow-y-auto font-mono whitespace-pre-wrap bg-gray-900 text-gray-300 rounded p-1">
+          {output || '…'}
+        </pre>
+      )}
+    </div>
+  );
+}
 
 // New component to handle recursive log rendering
 function LogItem({ log }: { log: Log }) {
@@ -9,11 +62,13 @@ function LogItem({ log }: { log: Log }) {
     <div className="space-y-1">
       <div className="flex items-start gap-1 text-xs">
         <pre className="font-mono whitespace-pre-wrap">{log.message}</pre>
+        {log.verdict && <VerdictBadge verdict={log.verdict} />}
         {log.status === 'loading' && <span className="animate-spin">⚡</span>}
         {log.status === 'success' && <span className="text-green-500">✅</span>}
         {log.status === 'done' && <span className="text-green-500">✔️</span>}
         {log.status === 'error' && <span className="text-red-500">❌</span>}
       </div>
+      {log.live_output !== undefined && <LiveOutput log={log} />}
       {log.sub_tasks && log.sub_tasks.length > 0 && (
         <div className="ml-2 border-l border-gray-700 pl-2 space-y-1">
           {log.sub_tasks!.map((subLog, index) => (
@@ -27,36 +82,79 @@ function LogItem({ log }: { log: Log }) {
   );
 }
 
-function RequestStats({ llmCount, computeCount }: { llmCount: number; computeCount: number }) {
+const NO_REQUESTS: RequestCounts = { llm_running: 0, llm_queued: 0, compute_running: 0, compute_queued: 0 };
+
+// Running requests, plus the ones waiting for a free slot in the scheduler
+function RequestStats({ counts }: { counts: RequestCounts }) {
   return (
     <div className="flex gap-2">
       <div className="flex items-center gap-1 text-xs bg-gray-800 rounded">
-        <div className={`w-1.5 h-1.5 rounded-full ${llmCount > 0 ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
-        <span>{llmCount} LLM</span>
+        <div className={`w-1.5 h-1.5 rounded-full ${counts.llm_running > 0 ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
+        <span>{counts.llm_running} LLM</span>
+        {counts.llm_queued > 0 && <span className="text-gray-400">+{counts.llm_queued} queued</span>}
       </div>
       <div className="flex items-center gap-1 text-xs bg-gray-800 rounded">
-        <div className={`w-1.5 h-1.5 rounded-full ${computeCount > 0 ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
-        <span>{computeCount} Computing</span>
+        <div className={`w-1.5 h-1.5 rounded-full ${counts.compute_running > 0 ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`} />
+        <span>{counts.compute_running} Computing</span>
+        {counts.compute_queued > 0 && <span className="text-gray-400">+{counts.compute_queued} queued</span>}
       </div>
     </div>
   );
 }
 
+function formatTokens(tokens: number): string {
+  if (tokens >= 1e6) {
+    return `${(tokens / 1e6).toFixed(1)}M`;
+  }
+  if (tokens >= 1e3) {
+    return `${(tokens / 1e3).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+function describeUsage(usage: TokenUsage): string {
+  const reasoning = usage.reasoning_tokens > 0 ? ` (${formatTokens(usage.reasoning_tokens)} reasoning)` : '';
+  const cost = usage.cost_usd > 0 ? `, $${usage.cost_usd.toFixed(2)}` : '';
+  return `${formatTokens(usage.input_tokens)} in, ${formatTokens(usage.output_tokens)} out${reasoning}${cost}`;
+}
+
+// Tokens (and the cost of the priced models) of a run, the breakdown by stage and model is in the tooltip
+export function UsageStats({ usage, breakdown }: { usage: TokenUsage; breakdown?: RunUsage }) {
+  const title = breakdown && [
+    ...Object.entries(breakdown.by_stage).map(([stage, stageUsage]) => `${stage}: ${describeUsage(stageUsage!)}`),
+    '',
+    ...Object.entries(breakdown.by_model).map(([model, modelUsage]) => `${model}: ${describeUsage(modelUsage)}`),
+  ].join('\n');
+  return (
+    <div className="flex items-center gap-1 text-xs text-gray-400" title={title}>
+      <span>🪙 {usage.calls} calls, {describeUsage(usage)}</span>
+    </div>
+  );
+}
+
 export default function ProblemColumn({ name }: { name: string }) {
   const [logs, setLogs] = useState<Log[]>([]);
-  const [activeLLMRequests, setActiveLLMRequests] = useState(0);
-  const [activeComputeRequests, setActiveComputeRequests] = useState(0);
+  const [requestCounts, setRequestCounts] = useState<RequestCounts>(NO_REQUESTS);
+  const [usage, setUsage] = useState<RunUsage | null>(null);
 
   useEffect(() => {
-    const handleRequestCount = (problem: string, llm_count: number, compute_count: number) => {
+    const handleRequestCount = (problem: string, counts: RequestCounts) => {
+      if (problem === name) {
+        setRequestCounts(counts);
+      }
+    };
+    const handleUsage = (problem: string, runUsage: RunUsage | null) => {
       if (problem === name) {
-        setActiveLLMRequests(llm_count);
-        setActiveComputeRequests(compute_count);
+        setUsage(runUsage);
       }
     };
     ProblemService.addListener(handleRequestCount);
+    ProblemService.addUsageListener(handleUsage);
+    // The usage of the last run is kept on the server
+    ProblemService.refreshUsage(name);
     return () => {
       ProblemService.removeListener(handleRequestCount);
+      ProblemService.removeUsageListener(handleUsage);
     };
   }, [name]);
 
@@ -105,8 +203,13 @@ export default function ProblemColumn({ name }: { name: string }) {
         <div className="flex flex-col">
           <h2 className="text-base font-semibold">{name}</h2>
           <div className="mt-1">
-            <RequestStats llmCount={activeLLMRequests} computeCount={activeComputeRequests} />
+            <RequestStats counts={requestCounts} />
           </div>
+          {usage && usage.total.calls > 0 && (
+            <div className="mt-1">
+              <UsageStats usage={usage.total} breakdown={usage} />
+            </div>
+          )}
         </div>
         <button
           onClick={() => handleStart()}
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
+import path from "path";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The local execution backend imports the toolchains and run verdicts of ../cloud-run-worker
+  outputFileTracingRoot: path.join(__dirname, ".."),
 };
 
 export default nextConfig;